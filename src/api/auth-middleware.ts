@@ -0,0 +1,44 @@
+import { NextFunction, Request, Response } from 'express';
+import { authService, isAdminClaims, isServiceClaims } from '../services/auth-service';
+import { metricsService } from '../services/metrics-service';
+
+/**
+ * Exige un token bearer válido; deja el contexto de autenticación en `res.locals.auth`.
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const auth = await authService.authenticateRequest(req);
+  if (!auth) {
+    metricsService.incrementErrors('http_unauthorized', 'low', 'client');
+    res.set('WWW-Authenticate', 'Bearer').status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  res.locals.auth = auth;
+  next();
+}
+
+/**
+ * Exige un token con privilegios de administrador (debe ir después de `requireAuth`).
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!isAdminClaims(res.locals.auth?.claims)) {
+    metricsService.incrementErrors('http_forbidden', 'low', 'client');
+    res.status(403).json({ error: 'Admin privileges required' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Exige un token de un servicio del backend o de un administrador (debe ir después de `requireAuth`).
+ */
+export function requireService(req: Request, res: Response, next: NextFunction): void {
+  if (!isServiceClaims(res.locals.auth?.claims)) {
+    metricsService.incrementErrors('http_forbidden', 'low', 'client');
+    res.status(403).json({ error: 'Service privileges required' });
+    return;
+  }
+
+  next();
+}
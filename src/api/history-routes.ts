@@ -0,0 +1,100 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { PresenceHistoryService } from '../core/history/presence-history-service';
+import { PresenceService } from '../core/presence/presence-service';
+import logger from '../services/logger';
+import { isAdminClaims } from '../services/auth-service';
+import { metricsService } from '../services/metrics-service';
+import { UserPresenceStatus } from '../types/websocket';
+import { requireAuth } from './auth-middleware';
+
+// Límites de las consultas del historial
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 1000;
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_DAILY_RANGE_DAYS = 31;
+
+/**
+ * Crea las rutas REST del historial de presencia.
+ * Un usuario solo puede consultar su propio historial; los administradores, el de cualquiera.
+ * - `GET /presence/:userId/history?from&to&limit`: transiciones de estado en el rango (por defecto, las últimas 24 h).
+ * - `GET /presence/:userId/online-time?from&to`: tiempo en cada estado por día (UTC).
+ */
+export function createHistoryRouter(historyService: PresenceHistoryService, presenceService: PresenceService): Router {
+  const router = Router();
+
+  router.get('/presence/:userId/history', requireAuth, requireSelfOrAdmin, async (req, res) => {
+    const range = parseRange(req, res);
+    if (!range) {
+      return;
+    }
+
+    const limit = Math.min(parsePositiveInt(req.query.limit, DEFAULT_HISTORY_LIMIT), MAX_HISTORY_LIMIT);
+    try {
+      const items = await historyService.getTransitions(req.params.userId, { ...range, limit });
+      res.json({ userId: req.params.userId, from: range.from.toISOString(), to: range.to.toISOString(), items });
+    } catch (error) {
+      logger.error('Error querying presence history:', error);
+      metricsService.incrementErrors('history_query', 'medium', 'server');
+      res.status(500).json({ error: 'Error querying presence history' });
+    }
+  });
+
+  router.get('/presence/:userId/online-time', requireAuth, requireSelfOrAdmin, async (req, res) => {
+    const range = parseRange(req, res);
+    if (!range) {
+      return;
+    }
+
+    if (range.to.getTime() - range.from.getTime() > MAX_DAILY_RANGE_DAYS * DEFAULT_RANGE_MS) {
+      res.status(400).json({ error: `Range cannot exceed ${MAX_DAILY_RANGE_DAYS} days` });
+      return;
+    }
+
+    try {
+      const currentStatus = presenceService.getPresence(req.params.userId)?.status || UserPresenceStatus.OFFLINE;
+      const days = await historyService.getDailyPresenceTime(req.params.userId, range.from, range.to, currentStatus);
+      res.json({ userId: req.params.userId, days });
+    } catch (error) {
+      logger.error('Error computing online time:', error);
+      metricsService.incrementErrors('history_query', 'medium', 'server');
+      res.status(500).json({ error: 'Error computing online time' });
+    }
+  });
+
+  return router;
+}
+
+// Solo el propio usuario o un administrador pueden leer el historial (debe ir después de `requireAuth`)
+function requireSelfOrAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (res.locals.auth.userId !== req.params.userId && !isAdminClaims(res.locals.auth.claims)) {
+    metricsService.incrementErrors('http_forbidden', 'low', 'client');
+    res.status(403).json({ error: 'Not allowed to read this history' });
+    return;
+  }
+
+  next();
+}
+
+// Interpreta `from` y `to` (ISO 8601); responde 400 si no son válidos
+function parseRange(req: Request, res: Response): { from: Date; to: Date } | null {
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+    return null;
+  }
+
+  if (from > to) {
+    res.status(400).json({ error: 'from must be before to' });
+    return null;
+  }
+
+  return { from, to };
+}
+
+// Interpreta un parámetro de query numérico positivo
+function parsePositiveInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(String(value), 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
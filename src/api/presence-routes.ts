@@ -0,0 +1,139 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { PresenceService } from '../core/presence/presence-service';
+import { WebSocketServer } from '../core/websocket/websocket-service';
+import logger from '../services/logger';
+import { metricsService } from '../services/metrics-service';
+import { isServiceClaims } from '../services/auth-service';
+import { UserPresenceStatus } from '../types/websocket';
+import { requireAdmin, requireAuth, requireService } from './auth-middleware';
+
+// Límites de las consultas masivas y paginadas
+const MAX_QUERY_USER_IDS = 500;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Crea las rutas REST de consulta y administración de presencia.
+ * - `GET /presence/:userId`: el propio usuario, un servicio del backend o un administrador.
+ * - `GET /presence`, `POST /presence/query`: requieren un token de servicio o de administrador.
+ * - `PUT /admin/presence/:userId`, `POST /admin/presence/:userId/kick`: requieren privilegios de administrador.
+ */
+export function createPresenceRouter(presenceService: PresenceService, wsServer: WebSocketServer): Router {
+  const router = Router();
+
+  // Lista paginada de presencias, opcionalmente filtrada por estado
+  router.get('/presence', requireAuth, requireService, (req, res) => {
+    const status = req.query.status as string | undefined;
+    if (status && !isPresenceStatus(status)) {
+      res.status(400).json({ error: `Invalid status: ${status}` });
+      return;
+    }
+
+    const limit = Math.min(parseNonNegativeInt(req.query.limit, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const offset = parseNonNegativeInt(req.query.offset, 0);
+    const items = presenceService
+      .getAllPresence()
+      .filter((presence) => !status || presence.status === status);
+
+    res.json({
+      items: items.slice(offset, offset + limit),
+      total: items.length,
+      limit,
+      offset
+    });
+  });
+
+  // Consulta masiva por lista de IDs
+  router.post('/presence/query', requireAuth, requireService, (req, res) => {
+    const userIds = req.body?.userIds;
+    if (!Array.isArray(userIds) || !userIds.every((userId) => typeof userId === 'string')) {
+      res.status(400).json({ error: 'userIds must be an array of strings' });
+      return;
+    }
+
+    if (userIds.length > MAX_QUERY_USER_IDS) {
+      res.status(400).json({ error: `At most ${MAX_QUERY_USER_IDS} userIds per query` });
+      return;
+    }
+
+    const presence = [];
+    const missing = [];
+    for (const userId of new Set<string>(userIds)) {
+      const presenceData = presenceService.getPresence(userId);
+      if (presenceData) {
+        presence.push(presenceData);
+      } else {
+        missing.push(userId);
+      }
+    }
+
+    res.json({ presence, missing });
+  });
+
+  // Presencia de un usuario
+  router.get('/presence/:userId', requireAuth, requireSelfOrService, (req, res) => {
+    const presenceData = presenceService.getPresence(req.params.userId);
+    if (!presenceData) {
+      res.status(404).json({ error: 'Presence not found' });
+      return;
+    }
+
+    res.json(presenceData);
+  });
+
+  // Fuerza el estado de presencia de un usuario
+  router.put('/admin/presence/:userId', requireAuth, requireAdmin, async (req, res) => {
+    const { status, metadata } = req.body || {};
+    if (!isPresenceStatus(status)) {
+      res.status(400).json({ error: `Invalid status: ${status}` });
+      return;
+    }
+
+    if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+      res.status(400).json({ error: 'metadata must be an object' });
+      return;
+    }
+
+    try {
+      await presenceService.updatePresence(req.params.userId, status, metadata);
+      logger.info(`Presence of ${req.params.userId} set to ${status} by ${res.locals.auth.userId}`);
+      res.json(presenceService.getPresence(req.params.userId));
+    } catch (error) {
+      logger.error('Error forcing presence:', error);
+      metricsService.incrementErrors('admin_presence', 'medium', 'server');
+      res.status(500).json({ error: 'Error updating presence' });
+    }
+  });
+
+  // Cierra todas las conexiones de un usuario en este nodo y, con clúster, en los demás
+  router.post('/admin/presence/:userId/kick', requireAuth, requireAdmin, (req, res) => {
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'Disconnected by administrator';
+    const { disconnected, remote } = wsServer.disconnectUser(req.params.userId, reason);
+    logger.info(`User ${req.params.userId} kicked by ${res.locals.auth.userId}`, { disconnected, remote });
+    res.json({ userId: req.params.userId, disconnected, remote });
+  });
+
+  return router;
+}
+
+// Solo el propio usuario, un servicio o un administrador pueden leer una presencia (debe ir después de `requireAuth`)
+function requireSelfOrService(req: Request, res: Response, next: NextFunction): void {
+  if (res.locals.auth.userId !== req.params.userId && !isServiceClaims(res.locals.auth.claims)) {
+    metricsService.incrementErrors('http_forbidden', 'low', 'client');
+    res.status(403).json({ error: 'Not allowed to read this presence' });
+    return;
+  }
+
+  next();
+}
+
+// Verifica que el valor sea un estado de presencia válido
+function isPresenceStatus(value: unknown): value is UserPresenceStatus {
+  return Object.values(UserPresenceStatus).includes(value as UserPresenceStatus);
+}
+
+// Interpreta un parámetro de query numérico no negativo
+function parseNonNegativeInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(String(value), 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
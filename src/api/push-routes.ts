@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { PushService, PushTarget } from '../core/push/push-service';
+import logger from '../services/logger';
+import { metricsService } from '../services/metrics-service';
+import { ClientType } from '../types/websocket';
+import { requireAuth, requireService } from './auth-middleware';
+
+// Límite de destinatarios por notificación
+const MAX_PUSH_USER_IDS = 500;
+
+/**
+ * Crea la ruta de notificaciones para servicios del backend.
+ * - `POST /push`: requiere un token de servicio (`role: 'service'`) o de administrador.
+ */
+export function createPushRouter(pushService: PushService): Router {
+  const router = Router();
+
+  router.post('/push', requireAuth, requireService, async (req, res) => {
+    const { userId, userIds, clientType, event, data, queue } = req.body || {};
+
+    const targets = [userId, userIds, clientType].filter((value) => value !== undefined);
+    if (targets.length !== 1) {
+      res.status(400).json({ error: 'Exactly one of userId, userIds or clientType is required' });
+      return;
+    }
+
+    let target: PushTarget;
+    if (userId !== undefined) {
+      if (typeof userId !== 'string' || userId.length === 0) {
+        res.status(400).json({ error: 'userId must be a non-empty string' });
+        return;
+      }
+      target = { userId };
+    } else if (userIds !== undefined) {
+      if (!Array.isArray(userIds) || !userIds.every((id) => typeof id === 'string' && id.length > 0)) {
+        res.status(400).json({ error: 'userIds must be an array of non-empty strings' });
+        return;
+      }
+      if (userIds.length > MAX_PUSH_USER_IDS) {
+        res.status(400).json({ error: `At most ${MAX_PUSH_USER_IDS} userIds per push` });
+        return;
+      }
+      target = { userIds };
+    } else {
+      if (!Object.values(ClientType).includes(clientType)) {
+        res.status(400).json({ error: `Invalid clientType: ${clientType}` });
+        return;
+      }
+      target = { clientType };
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      res.status(400).json({ error: 'data must be an object' });
+      return;
+    }
+
+    if (event !== undefined && typeof event !== 'string') {
+      res.status(400).json({ error: 'event must be a string' });
+      return;
+    }
+
+    if (queue !== undefined && typeof queue !== 'boolean') {
+      res.status(400).json({ error: 'queue must be a boolean' });
+      return;
+    }
+
+    try {
+      const result = await pushService.push(target, data, { event, queueIfOffline: queue });
+      logger.info(`Push ${result.pushId} sent by ${res.locals.auth.userId}`, { event, delivered: result.delivered });
+      res.json(result);
+    } catch (error) {
+      logger.error('Error sending push:', error);
+      metricsService.incrementErrors('push', 'medium', 'server');
+      res.status(500).json({ error: 'Error sending push' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import { isDeepStrictEqual } from 'util';
+import { AppConfig, reloadConfig } from './environment';
+import logger from '../services/logger';
+import { metricsService } from '../services/metrics-service';
+
+// Origen de una recarga: cambio del archivo, señal SIGHUP o API de administración
+export type ConfigReloadSource = 'file' | 'signal' | 'api';
+
+// Resultado de una recarga
+export interface ConfigReloadResult {
+  applied: boolean;  // La nueva configuración está en uso
+  restartRequired?: string[];  // Claves cambiadas que conservan su valor hasta reiniciar (p. ej. `server.port`)
+  error?: string;  // Motivo por el que se descartó (validación o rechazo de un oyente)
+}
+
+/**
+ * Oyente de recarga: aplica la configuración y devuelve las claves que recibió pero que solo
+ * pueden cambiar al reiniciar; debe lanzar un error si no puede aplicarla.
+ */
+export type ConfigReloadListener = (config: AppConfig) => string[] | void;
+
+// Claves que los oyentes aplican en caliente; el resto conserva el valor en uso hasta reiniciar
+const HOT_RELOAD_KEYS = ['logging.level', 'websocket', 'auth.reauthGracePeriod'];
+
+/**
+ * Recarga la configuración sin reiniciar el proceso.
+ * - Se dispara cuando cambia `CONFIG_FILE` (se comprueba cada `CONFIG_WATCH_INTERVAL`), con SIGHUP
+ *   o desde `POST /admin/config/reload`.
+ * - La configuración se valida antes de aplicarse; si no es válida se conserva la actual.
+ * - Si un oyente la rechaza (lanza un error), se vuelve a aplicar la anterior en todos los oyentes.
+ * - Solo cambian las claves de `HOT_RELOAD_KEYS` que los oyentes aceptan; las demás mantienen su valor
+ *   en `config` y se devuelven en `restartRequired`.
+ */
+export class ConfigReloader {
+  private current: AppConfig;
+  private readonly listeners: Set<ConfigReloadListener> = new Set();
+  private readonly handleSignal = () => void this.reload('signal');
+  private watchedFile: string | null = null;
+
+  constructor(initial: AppConfig) {
+    this.current = initial;
+  }
+
+  // Configuración en uso
+  public get config(): AppConfig {
+    return this.current;
+  }
+
+  /**
+   * Registra un oyente que aplica la configuración nueva.
+   */
+  public onReload(listener: ConfigReloadListener): void {
+    this.listeners.add(listener);
+  }
+
+  public start(): void {
+    process.on('SIGHUP', this.handleSignal);
+
+    const { path, watchInterval } = this.current.configFile;
+    if (path && watchInterval > 0) {
+      fs.watchFile(path, { interval: watchInterval, persistent: false }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          this.reload('file');
+        }
+      });
+      this.watchedFile = path;
+    }
+  }
+
+  public stop(): void {
+    process.off('SIGHUP', this.handleSignal);
+    if (this.watchedFile) {
+      fs.unwatchFile(this.watchedFile);
+      this.watchedFile = null;
+    }
+  }
+
+  /**
+   * Lee, valida y aplica la configuración; ante cualquier error se mantiene la anterior.
+   */
+  public reload(source: ConfigReloadSource): ConfigReloadResult {
+    let next: AppConfig;
+    try {
+      next = reloadConfig();
+    } catch (error) {
+      metricsService.incrementConfigReloads(source, 'invalid');
+      logger.warn(`Ignoring invalid configuration (${source})`, { reason: errorMessage(error) });
+      return { applied: false, error: errorMessage(error) };
+    }
+
+    const previous = this.current;
+    const candidate = withHotKeys(previous, next);
+    let ignored: string[];
+    try {
+      ignored = this.apply(candidate);
+    } catch (error) {
+      logger.warn(`Configuration rejected (${source}), rolling back`, { reason: errorMessage(error) });
+      try {
+        this.apply(previous);
+      } catch (rollbackError) {
+        logger.error('Error rolling back configuration:', rollbackError);
+      }
+      metricsService.incrementConfigReloads(source, 'rolled_back');
+      return { applied: false, error: errorMessage(error) };
+    }
+
+    // Las claves que un oyente no pudo aplicar conservan el valor en uso
+    ignored.forEach((key) => setPath(candidate, key, getPath(previous, key)));
+    const restartRequired = changedPaths(previous, next).filter((key) => !isDeepStrictEqual(getPath(candidate, key), getPath(next, key)));
+
+    this.current = candidate as AppConfig;
+    metricsService.incrementConfigReloads(source, 'applied');
+    logger.info(`Configuration reloaded (${source})`);
+    if (restartRequired.length > 0) {
+      logger.warn('Configuration changes require a restart to take effect', { keys: restartRequired });
+    }
+    return { applied: true, restartRequired };
+  }
+
+  // Aplica la configuración en todos los oyentes y devuelve las claves que no pudieron aplicar
+  private apply(config: AppConfig): string[] {
+    const ignored: string[] = [];
+    this.listeners.forEach((listener) => ignored.push(...(listener(config) || [])));
+    return ignored;
+  }
+}
+
+// Copia de la configuración en uso con las claves que se aplican en caliente tomadas de la nueva
+function withHotKeys(current: AppConfig, next: AppConfig): AppConfig {
+  const merged = structuredClone(current);
+  HOT_RELOAD_KEYS.forEach((key) => setPath(merged, key, structuredClone(getPath(next, key))));
+  return merged;
+}
+
+// Rutas (`seccion.clave`) de los valores que difieren entre dos configuraciones
+function changedPaths(previous: unknown, next: unknown, prefix: string = ''): string[] {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    return Array.from(keys).flatMap((key) => changedPaths(previous[key], next[key], prefix ? `${prefix}.${key}` : key));
+  }
+  return isDeepStrictEqual(previous, next) ? [] : [prefix];
+}
+
+function getPath(config: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), config);
+}
+
+function setPath(config: unknown, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const parent = keys.length > 1 ? getPath(config, keys.slice(0, -1).join('.')) : config;
+  if (isPlainObject(parent)) {
+    parent[keys[keys.length - 1]] = value;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
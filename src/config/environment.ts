@@ -1,57 +1,360 @@
 import dotenv from 'dotenv'; // Cargar variables de entorno desde el archivo .env
 import { cleanEnv, str, port } from 'envalid'; // Validación y limpieza de variables de entorno
+import fs from 'fs'; // Lectura del archivo de configuración opcional
+import yaml from 'js-yaml'; // Archivos de configuración en YAML
+import os from 'os'; // Hostname para el identificador de nodo
+import path from 'path'; // Resolución de rutas relativas al directorio de trabajo
+import { ClientType, PresenceAggregationPolicy, PresenceWatchScope, RateLimitPenalty, SlowConsumerPolicy, WebSocketMessageType } from '../types/websocket';
 
 // Cargar las variables de entorno desde el archivo .env
 dotenv.config();
 
 /**
- * Validar y tipar las variables de entorno.
+ * Especificación de las variables de entorno.
  * cleanEnv garantiza que las variables sean válidas y establece valores predeterminados si no están presentes.
  */
-export const env = cleanEnv(process.env, {
+const ENV_SPEC = {
   // Entorno de ejecución (development, test, production)
   NODE_ENV: str({ choices: ['development', 'test', 'production'], default: 'development' }),
 
+  // Archivo de configuración opcional (JSON o YAML) con los mismos nombres que las variables de entorno
+  CONFIG_FILE: str({ default: '' }),
+  CONFIG_WATCH_INTERVAL: str({ default: '2000' }), // Cada cuánto se comprueba si el archivo cambió (0 no lo vigila)
+
   // Configuración del servidor
   PORT: port({ default: 3000 }), // Puerto en el que se ejecutará el servidor
   HOST: str({ default: '127.0.0.1' }), // Host para escuchar conexiones
+  SHUTDOWN_TIMEOUT: str({ default: '10000' }), // Tiempo máximo para el cierre ordenado antes de forzar la salida
   
   // Configuración de WebSocket
   WS_HEARTBEAT_INTERVAL: str({ default: '30000' }), // Intervalo para enviar "pings" a los clientes WebSocket
-  CORS_ORIGIN: str({ default: '*' }), // Orígenes permitidos para CORS (Cross-Origin Resource Sharing)
+  WS_MAX_CONNECTIONS_PER_USER: str({ default: '5' }), // Sockets simultáneos de un mismo usuario
+  WS_MAX_CONNECTIONS: str({ default: '0' }), // Sockets simultáneos en el nodo (0 sin límite)
+  WS_IP_ALLOW_LIST: str({ default: '' }), // IPs o rangos CIDR que pueden conectarse, p. ej. "10.0.0.0/8,192.168.1.10" (vacío: cualquiera)
+  WS_IP_DENY_LIST: str({ default: '' }), // IPs o rangos CIDR que nunca pueden conectarse
+  WS_TRUSTED_PROXIES: str({ default: '' }), // Proxies (IPs o rangos CIDR) cuyo X-Forwarded-For se acepta
+  WS_MAX_MESSAGE_SIZE: str({ default: '1048576' }), // Tamaño máximo de un mensaje entrante en bytes
+  WS_MAX_SUBSCRIPTIONS_PER_CLIENT: str({ default: '1000' }), // Usuarios que puede observar cada socket
+  WS_MAX_ROOMS_PER_CLIENT: str({ default: '100' }), // Salas a las que puede unirse cada socket
+  WS_MESSAGE_RATE_LIMIT: str({ default: '100' }), // Mensajes por segundo y socket
+  WS_USER_MESSAGE_RATE_LIMIT: str({ default: '200' }), // Mensajes por segundo de un usuario en todos sus sockets
+  WS_MESSAGE_TYPE_RATE_LIMITS: str({ default: '' }), // Límites por tipo de mensaje, p. ej. "presence_update:5,direct_message:20"
+  WS_SIGNAL_RATE_LIMIT: str({ default: '10' }), // Señales efímeras por segundo y socket
+  WS_CONNECTION_RATE_LIMIT: str({ default: '60' }), // Intentos de conexión por minuto y dirección IP
+  WS_RATE_LIMIT_PENALTY: str({ choices: ['drop', 'error', 'close'], default: 'error' }), // Respuesta a los mensajes que superan un límite
+  WS_RATE_LIMIT_MAX_VIOLATIONS: str({ default: '10' }), // Infracciones por minuto antes de cerrar el socket (con `close`)
+  WS_TYPING_TIMEOUT: str({ default: '10000' }), // Expiración de los indicadores de escritura
+  WS_BACKPRESSURE_HIGH_WATER_MARK: str({ default: '1048576' }), // Bytes sin enviar a partir de los que se agrupan las actualizaciones
+  WS_MAX_BUFFERED_AMOUNT: str({ default: '4194304' }), // Bytes sin enviar a partir de los que se aplica la política de consumidores lentos
+  WS_SLOW_CONSUMER_POLICY: str({ choices: ['drop', 'close'], default: 'close' }), // Descartar mensajes o cerrar los sockets lentos
+  WS_COMPRESSION: str({ choices: ['true', 'false'], default: 'false' }), // Ofrecer compresión permessage-deflate
+  WS_COMPRESSION_THRESHOLD: str({ default: '1024' }), // Bytes a partir de los que se comprime un mensaje
+  WS_COMPRESSION_WINDOW_BITS: str({ default: '15' }), // Ventana de compresión del servidor (8-15)
+  WS_COMPRESSION_MEM_LEVEL: str({ default: '8' }), // Memoria de zlib por contexto (1-9)
+  WS_COMPRESSION_CONCURRENCY: str({ default: '10' }), // Operaciones de zlib simultáneas
+  WS_COMPRESSION_DISABLED_CLIENT_TYPES: str({ default: '' }), // Tipos de cliente sin compresión, p. ej. "mobile,flutter"
+  WS_IDEMPOTENCY_WINDOW: str({ default: '60000' }), // Ventana para deduplicar mensajes reintentados con el mismo `id`
+  WS_SHUTDOWN_RECONNECT_JITTER: str({ default: '5000' }), // Reparto aleatorio de las reconexiones tras un cierre del nodo
+  CORS_ORIGIN: str({ default: '*' }), // Orígenes permitidos para CORS y para el upgrade de WebSocket, separados por comas
+
+  // Configuración de autenticación
+  AUTH_PROVIDER: str({ choices: ['firebase', 'jwt'], default: 'firebase' }), // Proveedor que valida los tokens de acceso
+  AUTH_JWT_ALGORITHM: str({ choices: ['HS256', 'RS256'], default: 'HS256' }), // Algoritmo de firma de los JWT locales
+  AUTH_JWT_SECRET: str({ default: '' }), // Secreto compartido para HS256 (obligatorio con AUTH_PROVIDER=jwt y HS256)
+  AUTH_JWT_PUBLIC_KEY: str({ default: '' }), // Clave pública PEM para RS256
+  AUTH_JWT_ISSUER: str({ default: '' }), // Emisor esperado (opcional)
+  AUTH_JWT_AUDIENCE: str({ default: '' }), // Audiencia esperada (opcional)
+  AUTH_REAUTH_GRACE_PERIOD: str({ default: '60000' }), // Tiempo para re-autenticarse tras expirar el token
+
+  // Configuración de Firebase
+  FIREBASE_CREDENTIALS_PATH: str({ default: './firebase-service-account.json' }), // Archivo de la cuenta de servicio
+
+  // Configuración de presencia
+  PRESENCE_IDLE_TIMEOUT: str({ default: '300000' }), // Inactividad antes de pasar a "away" (0 lo desactiva)
+  PRESENCE_AGGREGATION_POLICY: str({ choices: ['most_available', 'explicit_wins'], default: 'most_available' }), // Cómo se combinan los dispositivos
+  PRESENCE_RESUME_GRACE_PERIOD: str({ default: '30000' }), // Tiempo que se conserva la presencia tras un corte de red (0 lo desactiva)
+  PRESENCE_STORE: str({ choices: ['firestore', 'memory'], default: 'firestore', devDefault: 'memory' }), // Backend de almacenamiento de presencia
+  PRESENCE_WATCH_SCOPE: str({ choices: ['all', 'subscribed'], default: 'all' }), // Escuchar todo el almacenamiento o solo los usuarios con suscriptores locales
+  PRESENCE_WRITE_WINDOW: str({ default: '250' }), // Milisegundos que se agrupan las escrituras de presencia (0 escribe cada cambio al momento)
+  PRESENCE_WRITE_BATCH_SIZE: str({ default: '500' }), // Usuarios por escritura en lote
+  PRESENCE_WRITE_MAX_RETRIES: str({ default: '5' }), // Reintentos de un lote fallido
+  PRESENCE_WRITE_RETRY_DELAY: str({ default: '500' }), // Espera del primer reintento (se duplica en cada intento)
+
+  // Configuración del historial de presencia
+  HISTORY_SINK: str({ choices: ['none', 'memory', 'jsonl', 'firestore'], default: 'memory' }), // Destino de los cambios de estado
+  HISTORY_MEMORY_CAPACITY: str({ default: '10000' }), // Eventos que conserva el buffer en memoria
+  HISTORY_FILE_PATH: str({ default: './logs/presence-history.jsonl' }), // Archivo JSONL del historial
+
+  // Configuración de mensajes directos
+  MESSAGE_QUEUE: str({ choices: ['none', 'memory', 'firestore'], default: 'memory' }), // Cola de mensajes para usuarios desconectados
+  MESSAGE_QUEUE_MAX_PER_USER: str({ default: '100' }), // Mensajes pendientes que se conservan por usuario
+  MESSAGE_QUEUE_TTL: str({ default: '86400000' }), // Tiempo que un mensaje permanece en la cola (24 h)
+
+  // Configuración de clúster
+  NODE_ID: str({ default: '' }), // Identificador del nodo (por defecto hostname-pid)
+  CLUSTER_BUS: str({ choices: ['none', 'memory', 'redis'], default: 'none' }), // Canal entre nodos
+  REDIS_URL: str({ default: 'redis://localhost:6379' }), // URL de Redis para el bus de clúster
+  CLUSTER_HEARTBEAT_INTERVAL: str({ default: '5000' }), // Intervalo de latidos entre nodos
+  CLUSTER_NODE_TIMEOUT: str({ default: '15000' }), // Tiempo sin latidos para considerar caído un nodo
 
   // Configuración de logs
-  LOG_LEVEL: str({ choices: ['debug', 'info', 'warn', 'error'], default: 'info' }), // Nivel de logs
+  LOG_LEVEL: str({ choices: ['debug', 'info', 'warn', 'error'], default: 'info', devDefault: 'debug' }), // Nivel de logs
   LOG_TO_FILE: str({ choices: ['true', 'false'], default: 'false' }), // Indica si los logs se deben guardar en archivo
   LOG_FILE_PATH: str({ default: './logs/websocket-service.log' }), // Ruta del archivo de logs
-});
+};
+
+// Variables validadas al arrancar; un valor inválido detiene el proceso con el informe de envalid
+export const env = readEnv();
+
+export type AppConfig = ReturnType<typeof buildConfig>;
 
 /**
  * Configuración general de la aplicación basada en las variables de entorno validadas.
  * Se utiliza como un objeto constante para facilitar el acceso a la configuración desde cualquier parte del código.
+ * Los valores que se pueden cambiar en caliente se releen con `reloadConfig` (ver `ConfigReloader`).
  */
-export const config = {
-  // Flags para determinar el entorno actual
-  isProduction: env.NODE_ENV === 'production',
-  isDevelopment: env.NODE_ENV === 'development',
-  isTest: env.NODE_ENV === 'test',
+export const config = buildConfig(env);
 
-  // Configuración del servidor
-  server: {
-    port: env.PORT, // Puerto del servidor
-    host: env.HOST, // Host del servidor
-  },
+/**
+ * Vuelve a leer y validar la configuración (variables de entorno y `CONFIG_FILE`) sin detener el proceso.
+ * @throws Error Si el archivo no se puede leer o algún valor no es válido
+ */
+export function reloadConfig(): AppConfig {
+  return buildConfig(readEnv((errors) => {
+    throw new Error(`Invalid configuration: ${errors.join(', ')}`);
+  }));
+}
 
-  // Configuración de WebSocket
-  websocket: {
-    heartbeatInterval: parseInt(env.WS_HEARTBEAT_INTERVAL, 10), // Intervalo en milisegundos para los "pings"
-    allowedOrigins: env.CORS_ORIGIN.split(','), // Orígenes permitidos, separados por comas
-  },
+/**
+ * Valida las variables de entorno junto con los valores de `CONFIG_FILE`; las variables de entorno tienen prioridad.
+ * @param onError Recibe los errores de validación; sin él se usa el informe de envalid, que termina el proceso
+ */
+function readEnv(onError?: (errors: string[]) => void) {
+  const source = { ...loadConfigFile(process.env.CONFIG_FILE), ...process.env };
+  return cleanEnv(source, ENV_SPEC, onError && {
+    reporter: ({ errors }) => {
+      const messages = Object.entries(errors).map(([name, error]) => `${name}: ${error?.message}`);
+      if (messages.length > 0) {
+        onError(messages);
+      }
+    }
+  });
+}
 
-  // Configuración de logs
-  logging: {
-    level: env.LOG_LEVEL, // Nivel de logs (debug, info, warn, error)
-    toFile: env.LOG_TO_FILE === 'true', // Indica si se deben guardar logs en un archivo
-    filePath: env.LOG_FILE_PATH, // Ruta del archivo de logs
-  },
-} as const;
+// Construye la configuración de la aplicación a partir de las variables validadas
+function buildConfig(env: ReturnType<typeof readEnv>) {
+  validateAuthKeys(env);
+  return {
+    // Flags para determinar el entorno actual
+    isProduction: env.NODE_ENV === 'production',
+    isDevelopment: env.NODE_ENV === 'development',
+    isTest: env.NODE_ENV === 'test',
+
+    // Archivo de configuración del que se leyeron valores (vacío si no hay)
+    configFile: {
+      path: env.CONFIG_FILE, // Ruta del archivo
+      watchInterval: parseMinInt('CONFIG_WATCH_INTERVAL', env.CONFIG_WATCH_INTERVAL, 0), // Milisegundos entre comprobaciones de cambios
+    },
+
+    // Configuración del servidor
+    server: {
+      port: env.PORT, // Puerto del servidor
+      host: env.HOST, // Host del servidor
+      shutdownTimeout: parseMinInt('SHUTDOWN_TIMEOUT', env.SHUTDOWN_TIMEOUT, 0), // Plazo en milisegundos para el cierre ordenado
+    },
+
+    // Configuración de WebSocket
+    websocket: {
+      heartbeatInterval: parseMinInt('WS_HEARTBEAT_INTERVAL', env.WS_HEARTBEAT_INTERVAL, 1), // Intervalo en milisegundos para los "pings"
+      allowedOrigins: parseList(env.CORS_ORIGIN), // Orígenes permitidos
+      maxConnectionsPerUser: parseMinInt('WS_MAX_CONNECTIONS_PER_USER', env.WS_MAX_CONNECTIONS_PER_USER, 1), // Sockets por usuario
+      maxConnections: parseMinInt('WS_MAX_CONNECTIONS', env.WS_MAX_CONNECTIONS, 0), // Sockets en el nodo
+      ipAllowList: parseList(env.WS_IP_ALLOW_LIST), // IPs y rangos permitidos
+      ipDenyList: parseList(env.WS_IP_DENY_LIST), // IPs y rangos denegados
+      trustedProxies: parseList(env.WS_TRUSTED_PROXIES), // Proxies de confianza
+      maxMessageSize: parseMinInt('WS_MAX_MESSAGE_SIZE', env.WS_MAX_MESSAGE_SIZE, 1), // Tamaño máximo de mensaje
+      maxSubscriptionsPerClient: parseMinInt('WS_MAX_SUBSCRIPTIONS_PER_CLIENT', env.WS_MAX_SUBSCRIPTIONS_PER_CLIENT, 0), // Límite de suscripciones por socket
+      maxRoomsPerClient: parseMinInt('WS_MAX_ROOMS_PER_CLIENT', env.WS_MAX_ROOMS_PER_CLIENT, 0), // Límite de salas por socket
+      messageRateLimit: parseMinInt('WS_MESSAGE_RATE_LIMIT', env.WS_MESSAGE_RATE_LIMIT, 0), // Límite de mensajes por socket
+      userMessageRateLimit: parseMinInt('WS_USER_MESSAGE_RATE_LIMIT', env.WS_USER_MESSAGE_RATE_LIMIT, 0), // Límite de mensajes por usuario
+      messageTypeRateLimits: parseRateLimits(env.WS_MESSAGE_TYPE_RATE_LIMITS), // Límites por tipo de mensaje
+      signalRateLimit: parseMinInt('WS_SIGNAL_RATE_LIMIT', env.WS_SIGNAL_RATE_LIMIT, 0), // Límite de señales por socket
+      connectionRateLimit: parseMinInt('WS_CONNECTION_RATE_LIMIT', env.WS_CONNECTION_RATE_LIMIT, 0), // Límite de conexiones por IP y minuto
+      rateLimitPenalty: env.WS_RATE_LIMIT_PENALTY as RateLimitPenalty, // Penalización al superar un límite
+      rateLimitMaxViolations: parseMinInt('WS_RATE_LIMIT_MAX_VIOLATIONS', env.WS_RATE_LIMIT_MAX_VIOLATIONS, 1), // Infracciones antes de cerrar
+      typingTimeout: parseMinInt('WS_TYPING_TIMEOUT', env.WS_TYPING_TIMEOUT, 1), // Milisegundos hasta que expira `typing_start`
+      backpressureHighWaterMark: parseMinInt('WS_BACKPRESSURE_HIGH_WATER_MARK', env.WS_BACKPRESSURE_HIGH_WATER_MARK, 1), // Umbral de contrapresión
+      maxBufferedAmount: parseMinInt('WS_MAX_BUFFERED_AMOUNT', env.WS_MAX_BUFFERED_AMOUNT, 1), // Máximo de bytes pendientes por socket
+      slowConsumerPolicy: env.WS_SLOW_CONSUMER_POLICY as SlowConsumerPolicy, // Respuesta a los sockets lentos
+      compression: {
+        enabled: env.WS_COMPRESSION === 'true', // Compresión permessage-deflate
+        threshold: parseMinInt('WS_COMPRESSION_THRESHOLD', env.WS_COMPRESSION_THRESHOLD, 0), // Tamaño mínimo para comprimir
+        windowBits: parseMinInt('WS_COMPRESSION_WINDOW_BITS', env.WS_COMPRESSION_WINDOW_BITS, 8, 15), // Ventana de compresión
+        memLevel: parseMinInt('WS_COMPRESSION_MEM_LEVEL', env.WS_COMPRESSION_MEM_LEVEL, 1, 9), // Nivel de memoria de zlib
+        concurrencyLimit: parseMinInt('WS_COMPRESSION_CONCURRENCY', env.WS_COMPRESSION_CONCURRENCY, 1), // Límite de operaciones de zlib
+        disabledClientTypes: parseClientTypes(env.WS_COMPRESSION_DISABLED_CLIENT_TYPES), // Clientes sin compresión
+      },
+      idempotencyWindow: parseMinInt('WS_IDEMPOTENCY_WINDOW', env.WS_IDEMPOTENCY_WINDOW, 0), // Ventana de deduplicación de mensajes
+      shutdownReconnectJitter: parseMinInt('WS_SHUTDOWN_RECONNECT_JITTER', env.WS_SHUTDOWN_RECONNECT_JITTER, 0), // Reparto de reconexiones al cerrar
+    },
+
+    // Configuración de autenticación
+    auth: {
+      provider: env.AUTH_PROVIDER as 'firebase' | 'jwt', // Proveedor de tokens
+      jwt: {
+        algorithm: env.AUTH_JWT_ALGORITHM as 'HS256' | 'RS256', // Algoritmo de firma
+        secret: env.AUTH_JWT_SECRET, // Secreto HS256
+        publicKey: env.AUTH_JWT_PUBLIC_KEY.replace(/\\n/g, '\n'), // Clave pública RS256 (admite saltos de línea escapados)
+        issuer: env.AUTH_JWT_ISSUER || undefined, // Emisor esperado
+        audience: env.AUTH_JWT_AUDIENCE || undefined, // Audiencia esperada
+      },
+      reauthGracePeriod: parseMinInt('AUTH_REAUTH_GRACE_PERIOD', env.AUTH_REAUTH_GRACE_PERIOD, 0), // Milisegundos para renovar el token antes de cerrar
+    },
+
+    // Configuración de Firebase
+    firebase: {
+      credentialsPath: path.resolve(env.FIREBASE_CREDENTIALS_PATH), // Ruta absoluta a la cuenta de servicio
+    },
+
+    // Configuración de presencia
+    presence: {
+      store: env.PRESENCE_STORE as 'firestore' | 'memory', // Backend de almacenamiento (Firestore o memoria)
+      watchScope: env.PRESENCE_WATCH_SCOPE as PresenceWatchScope, // Alcance de la escucha del almacenamiento
+      writeBuffer: {
+        window: parseMinInt('PRESENCE_WRITE_WINDOW', env.PRESENCE_WRITE_WINDOW, 0), // Ventana de agrupación de escrituras
+        batchSize: parseMinInt('PRESENCE_WRITE_BATCH_SIZE', env.PRESENCE_WRITE_BATCH_SIZE, 1), // Tamaño máximo de lote
+        maxRetries: parseMinInt('PRESENCE_WRITE_MAX_RETRIES', env.PRESENCE_WRITE_MAX_RETRIES, 0), // Reintentos antes de descartar un lote
+        retryBaseDelay: parseMinInt('PRESENCE_WRITE_RETRY_DELAY', env.PRESENCE_WRITE_RETRY_DELAY, 1), // Espera inicial entre reintentos
+      },
+      idleTimeout: parseMinInt('PRESENCE_IDLE_TIMEOUT', env.PRESENCE_IDLE_TIMEOUT, 0), // Milisegundos de inactividad antes de pasar a "away"
+      aggregationPolicy: env.PRESENCE_AGGREGATION_POLICY as PresenceAggregationPolicy, // Política de agregación por dispositivo
+      resumeGracePeriod: parseMinInt('PRESENCE_RESUME_GRACE_PERIOD', env.PRESENCE_RESUME_GRACE_PERIOD, 0), // Milisegundos para reanudar la sesión tras un corte
+    },
+
+    // Configuración de clúster
+    cluster: {
+      nodeId: env.NODE_ID || `${os.hostname()}-${process.pid}`, // Identificador único del nodo
+      bus: env.CLUSTER_BUS as 'none' | 'memory' | 'redis', // Canal de comunicación entre nodos
+      redisUrl: env.REDIS_URL, // URL de Redis
+      heartbeatInterval: parseMinInt('CLUSTER_HEARTBEAT_INTERVAL', env.CLUSTER_HEARTBEAT_INTERVAL, 1), // Milisegundos entre latidos
+      nodeTimeout: parseMinInt('CLUSTER_NODE_TIMEOUT', env.CLUSTER_NODE_TIMEOUT, 1), // Milisegundos sin latidos antes de descartar un nodo
+    },
+
+    // Configuración del historial de presencia
+    history: {
+      sink: env.HISTORY_SINK as 'none' | 'memory' | 'jsonl' | 'firestore', // Destino de los eventos
+      memoryCapacity: parseMinInt('HISTORY_MEMORY_CAPACITY', env.HISTORY_MEMORY_CAPACITY, 1), // Tamaño del buffer circular
+      filePath: env.HISTORY_FILE_PATH, // Archivo JSONL
+    },
+
+    // Configuración de mensajes directos
+    messaging: {
+      queue: env.MESSAGE_QUEUE as 'none' | 'memory' | 'firestore', // Cola de pendientes
+      maxQueuedPerUser: parseMinInt('MESSAGE_QUEUE_MAX_PER_USER', env.MESSAGE_QUEUE_MAX_PER_USER, 1), // Límite de la cola por usuario
+      queueTtl: parseMinInt('MESSAGE_QUEUE_TTL', env.MESSAGE_QUEUE_TTL, 1), // Milisegundos antes de descartar un mensaje pendiente
+    },
+
+    // Configuración de logs
+    logging: {
+      level: env.LOG_LEVEL, // Nivel de logs (debug, info, warn, error)
+      toFile: env.LOG_TO_FILE === 'true', // Indica si se deben guardar logs en un archivo
+      filePath: env.LOG_FILE_PATH, // Ruta del archivo de logs
+    },
+  } as const;
+}
+
+/**
+ * Con `AUTH_PROVIDER=jwt` debe haber una clave para el algoritmo elegido; nunca se usa una por defecto.
+ * @throws Error Si falta el secreto (HS256) o la clave pública (RS256)
+ */
+function validateAuthKeys(env: ReturnType<typeof readEnv>): void {
+  if (env.AUTH_PROVIDER !== 'jwt') {
+    return;
+  }
+  if (env.AUTH_JWT_ALGORITHM === 'HS256' && !env.AUTH_JWT_SECRET) {
+    throw new Error('AUTH_JWT_SECRET is required when AUTH_PROVIDER=jwt and AUTH_JWT_ALGORITHM=HS256');
+  }
+  if (env.AUTH_JWT_ALGORITHM === 'RS256' && !env.AUTH_JWT_PUBLIC_KEY) {
+    throw new Error('AUTH_JWT_PUBLIC_KEY is required when AUTH_PROVIDER=jwt and AUTH_JWT_ALGORITHM=RS256');
+  }
+}
+
+/**
+ * Lee el archivo de configuración opcional (`.json`, `.yaml` o `.yml`).
+ * Las claves son los nombres de las variables de entorno; las listas se unen con comas y los
+ * objetos se convierten en pares `clave:valor` (p. ej. para `WS_MESSAGE_TYPE_RATE_LIMITS`).
+ * @throws Error Si el archivo no existe o no contiene un objeto
+ */
+function loadConfigFile(filePath: string | undefined): Record<string, string> {
+  if (!filePath) {
+    return {};
+  }
+
+  const content = fs.readFileSync(path.resolve(filePath), 'utf8');
+  const parsed = /\.ya?ml$/i.test(filePath) ? yaml.load(content) : JSON.parse(content);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Config file ${filePath} must contain an object`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (Array.isArray(value)) {
+      values[key] = value.join(',');
+    } else if (typeof value === 'object' && value !== null) {
+      values[key] = Object.entries(value).map(([name, item]) => `${name}:${item}`).join(',');
+    } else if (value !== null && value !== undefined) {
+      values[key] = String(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Interpreta un entero con un valor mínimo (p. ej. el tamaño de un buffer, que no puede ser 0) y,
+ * opcionalmente, un máximo. Evita que un valor mal escrito llegue a la configuración como `NaN`.
+ * @throws Error Si el valor no es un entero o está fuera del rango
+ */
+function parseMinInt(name: string, value: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  const parsed = value.trim() === '' ? NaN : Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    const range = max === Number.MAX_SAFE_INTEGER ? `of at least ${min}` : `between ${min} and ${max}`;
+    throw new Error(`${name} must be an integer ${range}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Interpreta una lista de límites por tipo de mensaje (`tipo:límite` separados por comas).
+ * @throws Error Si un tipo no existe o un límite no es un entero no negativo
+ */
+function parseRateLimits(value: string): Partial<Record<WebSocketMessageType, number>> {
+  const limits: Partial<Record<WebSocketMessageType, number>> = {};
+  for (const entry of value.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const [type, limit] = entry.split(':').map((part) => part.trim());
+    const parsed = Number(limit);
+    if (!Object.values(WebSocketMessageType).includes(type as WebSocketMessageType) || !Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`Invalid WS_MESSAGE_TYPE_RATE_LIMITS entry: ${entry}`);
+    }
+    limits[type as WebSocketMessageType] = parsed;
+  }
+  return limits;
+}
+
+/**
+ * Interpreta una lista de tipos de cliente separados por comas.
+ * @throws Error Si un tipo de cliente no existe
+ */
+function parseClientTypes(value: string): ClientType[] {
+  const clientTypes = value.split(',').map((item) => item.trim()).filter(Boolean);
+  for (const clientType of clientTypes) {
+    if (!Object.values(ClientType).includes(clientType as ClientType)) {
+      throw new Error(`Invalid WS_COMPRESSION_DISABLED_CLIENT_TYPES entry: ${clientType}`);
+    }
+  }
+  return clientTypes as ClientType[];
+}
+
+// Interpreta una lista separada por comas, sin espacios ni entradas vacías
+function parseList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
@@ -1,5 +1,5 @@
 import * as admin from 'firebase-admin'; // SDK de Firebase Admin para manejar servicios de Firebase
-import * as path from 'path'; // Módulo de Node.js para manejar rutas de archivos
+import { config } from './environment'; // Configuración validada (ruta de las credenciales)
 import logger from '../services/logger'; // Sistema de logs personalizado
 
 /**
@@ -17,8 +17,8 @@ export function initializeFirebase() {
       return admin.app(); // Retorna la instancia ya existente
     }
 
-    // Ruta al archivo de credenciales del servicio
-    const serviceAccountPath = path.join(process.cwd(), 'firebase-service-account.json');
+    // Ruta al archivo de credenciales del servicio (`FIREBASE_CREDENTIALS_PATH`)
+    const serviceAccountPath = config.firebase.credentialsPath;
     
     logger.info('Initializing Firebase with service account from:', serviceAccountPath);
 
@@ -0,0 +1,24 @@
+import { config } from '../../config/environment';
+import logger from '../../services/logger';
+import { ClusterBus } from './cluster-bus';
+import { InMemoryClusterBus } from './memory-cluster-bus';
+import { RedisClusterBus } from './redis-cluster-bus';
+
+export type ClusterBusType = 'none' | 'memory' | 'redis';
+
+/**
+ * Crea el bus de clúster configurado en `CLUSTER_BUS`.
+ * @returns El bus, o null si el nodo funciona de forma aislada
+ */
+export function createClusterBus(type: ClusterBusType = config.cluster.bus): ClusterBus | null {
+  switch (type) {
+    case 'none':
+      return null;
+    case 'memory':
+      logger.info('Using in-process cluster bus');
+      return new InMemoryClusterBus();
+    case 'redis':
+      logger.info('Using Redis cluster bus');
+      return new RedisClusterBus(config.cluster.redisUrl);
+  }
+}
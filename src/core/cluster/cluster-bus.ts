@@ -0,0 +1,41 @@
+import { ClientType, PresenceData, WebSocketMessage } from '../../types/websocket';
+
+/**
+ * Eventos intercambiados entre nodos del clúster.
+ * - `heartbeat`: latido periódico con el conteo completo de conexiones locales por usuario.
+ * - `connections`: conteo actualizado de conexiones de un usuario en un nodo.
+ * - `presence`: cambio de presencia que deben recibir los suscriptores de otros nodos.
+ * - `direct`: mensaje para los sockets de un usuario conectados a otros nodos.
+ * - `client_type`: mensaje para todos los sockets de un tipo de cliente en los demás nodos.
+ * - `kick`: desconexión administrativa de un usuario, para los nodos donde tiene sockets.
+ * - `node_leave`: el nodo se detiene de forma controlada.
+ */
+export type ClusterEvent =
+  | { type: 'heartbeat'; nodeId: string; connections: Record<string, number>; timestamp: number }
+  | { type: 'connections'; nodeId: string; userId: string; count: number }
+  | { type: 'presence'; nodeId: string; presence: PresenceData }
+  | { type: 'direct'; nodeId: string; userId: string; message: WebSocketMessage }
+  | { type: 'client_type'; nodeId: string; clientType: ClientType; message: WebSocketMessage }
+  | { type: 'kick'; nodeId: string; userId: string; reason: string }
+  | { type: 'node_leave'; nodeId: string };
+
+/**
+ * Canal de comunicación entre nodos (pub/sub).
+ */
+export interface ClusterBus {
+  /**
+   * Publica un evento para todos los nodos (incluido el emisor).
+   */
+  publish(event: ClusterEvent): Promise<void>;
+
+  /**
+   * Escucha los eventos publicados por cualquier nodo.
+   * @returns Una función para cancelar la suscripción
+   */
+  subscribe(handler: (event: ClusterEvent) => void): Promise<() => void>;
+
+  /**
+   * Libera las conexiones del canal.
+   */
+  close(): Promise<void>;
+}
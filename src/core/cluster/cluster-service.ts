@@ -0,0 +1,300 @@
+import { ClientType, PresenceData, WebSocketMessage } from '../../types/websocket';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { ClusterBus, ClusterEvent } from './cluster-bus';
+
+export interface ClusterServiceOptions {
+  nodeId: string; // Identificador único de este nodo
+  heartbeatInterval: number; // Intervalo en milisegundos entre latidos
+  nodeTimeout: number; // Tiempo sin latidos tras el cual un nodo se considera caído
+}
+
+// Estado conocido de un nodo remoto
+interface RemoteNode {
+  lastHeartbeat: number;
+  connections: Map<string, number>;
+}
+
+/**
+ * Coordina la presencia entre varios nodos.
+ * - Agrega el número de conexiones por usuario de todos los nodos.
+ * - Reenvía los cambios de presencia a los demás nodos.
+ * - Detecta nodos caídos (sin latidos) y descarta sus conexiones.
+ */
+export class ClusterService {
+  private readonly remoteNodes: Map<string, RemoteNode> = new Map();
+  private readonly localConnections: Map<string, number> = new Map();
+  private readonly presenceListeners: Set<(presence: PresenceData) => void> = new Set();
+  private readonly nodeDownListeners: Set<(nodeId: string, userIds: string[]) => void> = new Set();
+  private readonly sweepListeners: Set<() => void> = new Set();
+  private readonly directListeners: Set<(userId: string, message: WebSocketMessage) => void> = new Set();
+  private readonly clientTypeListeners: Set<(clientType: ClientType, message: WebSocketMessage) => void> = new Set();
+  private readonly kickListeners: Set<(userId: string, reason: string) => void> = new Set();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private unsubscribeBus?: () => void;
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly bus: ClusterBus, private readonly options: ClusterServiceOptions) {}
+
+  public get nodeId(): string {
+    return this.options.nodeId;
+  }
+
+  /**
+   * Se suscribe al bus e inicia los latidos y la detección de nodos caídos.
+   */
+  public async start(): Promise<void> {
+    this.unsubscribeBus = await this.bus.subscribe((event) => this.handleEvent(event));
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat();
+      this.removeDeadNodes();
+      this.sweepListeners.forEach((listener) => listener());
+    }, this.options.heartbeatInterval);
+    this.sendHeartbeat();
+    logger.info(`Cluster node ${this.nodeId} started`);
+  }
+
+  /**
+   * Anuncia la salida del nodo y libera el bus.
+   */
+  public async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.unsubscribeBus?.();
+    await this.publish({ type: 'node_leave', nodeId: this.nodeId });
+    await this.bus.close();
+  }
+
+  /**
+   * Publica el número de conexiones locales de un usuario.
+   */
+  public setLocalConnections(userId: string, count: number): void {
+    if (count > 0) {
+      this.localConnections.set(userId, count);
+    } else {
+      this.localConnections.delete(userId);
+    }
+    void this.publish({ type: 'connections', nodeId: this.nodeId, userId, count });
+  }
+
+  /**
+   * Número de conexiones de un usuario en los demás nodos vivos.
+   */
+  public getRemoteConnectionCount(userId: string): number {
+    let total = 0;
+    this.remoteNodes.forEach((node) => {
+      total += node.connections.get(userId) || 0;
+    });
+    return total;
+  }
+
+  /**
+   * Número de nodos remotos vivos.
+   */
+  public getRemoteNodeCount(): number {
+    return this.remoteNodes.size;
+  }
+
+  /**
+   * Indica si un nodo (local o remoto) sigue vivo.
+   */
+  public isNodeAlive(nodeId: string): boolean {
+    return nodeId === this.nodeId || this.remoteNodes.has(nodeId);
+  }
+
+  /**
+   * Reenvía un cambio de presencia a los demás nodos.
+   */
+  public publishPresence(presence: PresenceData): void {
+    void this.publish({ type: 'presence', nodeId: this.nodeId, presence });
+  }
+
+  /**
+   * Envía un mensaje a los sockets de un usuario conectados a otros nodos.
+   */
+  public publishDirect(userId: string, message: WebSocketMessage): void {
+    void this.publish({ type: 'direct', nodeId: this.nodeId, userId, message });
+  }
+
+  /**
+   * Registra un listener para los mensajes dirigidos a usuarios enviados desde otros nodos.
+   */
+  public onDirect(listener: (userId: string, message: WebSocketMessage) => void): void {
+    this.directListeners.add(listener);
+  }
+
+  /**
+   * Envía un mensaje a todos los sockets de un tipo de cliente conectados a otros nodos.
+   */
+  public publishToClientType(clientType: ClientType, message: WebSocketMessage): void {
+    void this.publish({ type: 'client_type', nodeId: this.nodeId, clientType, message });
+  }
+
+  /**
+   * Registra un listener para los mensajes dirigidos a un tipo de cliente enviados desde otros nodos.
+   */
+  public onClientType(listener: (clientType: ClientType, message: WebSocketMessage) => void): void {
+    this.clientTypeListeners.add(listener);
+  }
+
+  /**
+   * Pide a los demás nodos que cierren las conexiones de un usuario.
+   */
+  public publishKick(userId: string, reason: string): void {
+    void this.publish({ type: 'kick', nodeId: this.nodeId, userId, reason });
+  }
+
+  /**
+   * Registra un listener para las desconexiones de usuarios pedidas desde otros nodos.
+   */
+  public onKick(listener: (userId: string, reason: string) => void): void {
+    this.kickListeners.add(listener);
+  }
+
+  /**
+   * Registra un listener para cambios de presencia originados en otros nodos.
+   */
+  public onPresence(listener: (presence: PresenceData) => void): void {
+    this.presenceListeners.add(listener);
+  }
+
+  /**
+   * Registra un listener para nodos caídos o detenidos, con los usuarios que tenían conectados.
+   */
+  public onNodeDown(listener: (nodeId: string, userIds: string[]) => void): void {
+    this.nodeDownListeners.add(listener);
+  }
+
+  /**
+   * Registra un listener que se ejecuta tras cada revisión periódica de nodos.
+   * Permite corregir carreras (por ejemplo, dos nodos que pierden al último socket a la vez).
+   */
+  public onSweep(listener: () => void): void {
+    this.sweepListeners.add(listener);
+  }
+
+  /**
+   * El nodo vivo con menor ID es el responsable de las escrituras de limpieza.
+   */
+  public isLeader(): boolean {
+    return Array.from(this.remoteNodes.keys()).every((nodeId) => this.nodeId < nodeId);
+  }
+
+  /**
+   * Indica si el nodo lleva el tiempo suficiente para conocer el estado de los demás nodos.
+   */
+  public isSettled(): boolean {
+    return Date.now() - this.startedAt >= this.options.nodeTimeout;
+  }
+
+  // Procesa un evento recibido del bus (los eventos propios se ignoran)
+  private handleEvent(event: ClusterEvent): void {
+    if (event.nodeId === this.nodeId) {
+      return;
+    }
+
+    try {
+      switch (event.type) {
+        case 'heartbeat':
+          this.remoteNodes.set(event.nodeId, {
+            lastHeartbeat: Date.now(),
+            connections: new Map(Object.entries(event.connections)),
+          });
+          break;
+
+        case 'connections': {
+          const node = this.getOrCreateNode(event.nodeId);
+          if (event.count > 0) {
+            node.connections.set(event.userId, event.count);
+          } else {
+            node.connections.delete(event.userId);
+          }
+          break;
+        }
+
+        case 'presence':
+          this.getOrCreateNode(event.nodeId);
+          this.presenceListeners.forEach((listener) => listener(event.presence));
+          break;
+
+        case 'direct':
+          if (this.localConnections.has(event.userId)) {
+            this.directListeners.forEach((listener) => listener(event.userId, event.message));
+          }
+          break;
+
+        case 'client_type':
+          this.clientTypeListeners.forEach((listener) => listener(event.clientType, event.message));
+          break;
+
+        case 'kick':
+          if (this.localConnections.has(event.userId)) {
+            this.kickListeners.forEach((listener) => listener(event.userId, event.reason));
+          }
+          break;
+
+        case 'node_leave':
+          this.removeNode(event.nodeId, 'leave');
+          break;
+      }
+    } catch (error) {
+      logger.error('Error handling cluster event:', error);
+      metricsService.incrementErrors('cluster_event', 'medium', 'server');
+    }
+  }
+
+  private getOrCreateNode(nodeId: string): RemoteNode {
+    let node = this.remoteNodes.get(nodeId);
+    if (!node) {
+      node = { lastHeartbeat: Date.now(), connections: new Map() };
+      this.remoteNodes.set(nodeId, node);
+    }
+    return node;
+  }
+
+  // Descarta los nodos que dejaron de enviar latidos
+  private removeDeadNodes(): void {
+    const now = Date.now();
+    this.remoteNodes.forEach((node, nodeId) => {
+      if (now - node.lastHeartbeat > this.options.nodeTimeout) {
+        this.removeNode(nodeId, 'timeout');
+      }
+    });
+    metricsService.observeSystemMetrics('cluster_nodes', this.remoteNodes.size + 1);
+  }
+
+  private removeNode(nodeId: string, reason: 'leave' | 'timeout'): void {
+    const node = this.remoteNodes.get(nodeId);
+    if (!node) {
+      return;
+    }
+
+    this.remoteNodes.delete(nodeId);
+    const userIds = Array.from(node.connections.keys());
+    logger.warn(`Cluster node ${nodeId} removed (${reason})`, { users: userIds.length });
+    if (reason === 'timeout') {
+      metricsService.incrementErrors('cluster_node_timeout', 'high', 'server');
+    }
+    this.nodeDownListeners.forEach((listener) => listener(nodeId, userIds));
+  }
+
+  private sendHeartbeat(): void {
+    void this.publish({
+      type: 'heartbeat',
+      nodeId: this.nodeId,
+      connections: Object.fromEntries(this.localConnections),
+      timestamp: Date.now(),
+    });
+  }
+
+  private async publish(event: ClusterEvent): Promise<void> {
+    try {
+      await this.bus.publish(event);
+    } catch (error) {
+      logger.error(`Error publishing ${event.type} cluster event:`, error);
+      metricsService.incrementErrors('cluster_publish', 'medium', 'server');
+    }
+  }
+}
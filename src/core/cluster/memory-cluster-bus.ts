@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import { ClusterBus, ClusterEvent } from './cluster-bus';
+
+// Canal compartido por todas las instancias del proceso
+const defaultChannel = new EventEmitter();
+defaultChannel.setMaxListeners(0);
+
+/**
+ * Bus de clúster en proceso.
+ * Varias instancias que comparten canal se comportan como nodos distintos (útil en tests).
+ */
+export class InMemoryClusterBus implements ClusterBus {
+  private readonly handlers: Set<(event: ClusterEvent) => void> = new Set();
+
+  constructor(private readonly channel: EventEmitter = defaultChannel) {}
+
+  async publish(event: ClusterEvent): Promise<void> {
+    // Se entrega de forma asíncrona, como lo haría un broker real
+    setImmediate(() => this.channel.emit('event', event));
+  }
+
+  async subscribe(handler: (event: ClusterEvent) => void): Promise<() => void> {
+    this.handlers.add(handler);
+    this.channel.on('event', handler);
+    return () => {
+      this.handlers.delete(handler);
+      this.channel.off('event', handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.forEach((handler) => this.channel.off('event', handler));
+    this.handlers.clear();
+  }
+}
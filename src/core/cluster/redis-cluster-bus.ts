@@ -0,0 +1,59 @@
+import Redis from 'ioredis';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { ClusterBus, ClusterEvent } from './cluster-bus';
+
+/**
+ * Bus de clúster sobre Redis pub/sub.
+ * Usa una conexión para publicar y otra para suscribirse (requisito de Redis).
+ */
+export class RedisClusterBus implements ClusterBus {
+  private readonly publisher: Redis;
+  private readonly subscriber: Redis;
+  private readonly handlers: Set<(event: ClusterEvent) => void> = new Set();
+
+  constructor(url: string, private readonly channel: string = 'presence:cluster') {
+    this.publisher = new Redis(url);
+    this.subscriber = new Redis(url);
+
+    [this.publisher, this.subscriber].forEach((client) => {
+      client.on('error', (error) => {
+        logger.error('Redis cluster bus error:', error);
+        metricsService.incrementErrors('cluster_bus', 'high', 'server');
+      });
+    });
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      if (channel !== this.channel) {
+        return;
+      }
+
+      try {
+        const event = JSON.parse(raw) as ClusterEvent;
+        this.handlers.forEach((handler) => handler(event));
+      } catch (error) {
+        logger.error('Invalid cluster event received:', error);
+        metricsService.incrementErrors('cluster_event', 'low', 'server');
+      }
+    });
+  }
+
+  async publish(event: ClusterEvent): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify(event));
+  }
+
+  async subscribe(handler: (event: ClusterEvent) => void): Promise<() => void> {
+    if (this.handlers.size === 0) {
+      await this.subscriber.subscribe(this.channel);
+    }
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+}
@@ -0,0 +1,39 @@
+import * as admin from 'firebase-admin';
+import { initializeFirebase } from '../../config/firebase-config';
+import { PresenceTransition } from '../../types/websocket';
+import { HistoryQuery, PresenceHistorySink } from './history-sink';
+
+/**
+ * Historial en Firestore, en la subcolección `presence/{userId}/history`.
+ * Compartido por todos los nodos del clúster.
+ */
+export class FirestoreHistorySink implements PresenceHistorySink {
+  private readonly db: admin.firestore.Firestore;
+
+  constructor() {
+    this.db = initializeFirebase().firestore();
+  }
+
+  async record(transition: PresenceTransition): Promise<void> {
+    // Firestore no admite campos `undefined` (p. ej. `deviceId` en transiciones sin dispositivo)
+    const document = Object.fromEntries(Object.entries(transition).filter(([, value]) => value !== undefined));
+    await this.history(transition.userId).add(document);
+  }
+
+  async query(userId: string, query: HistoryQuery): Promise<PresenceTransition[]> {
+    let request = this.history(userId)
+      .where('timestamp', '>=', query.from.toISOString())
+      .where('timestamp', '<=', query.to.toISOString())
+      .orderBy('timestamp');
+    if (query.limit !== undefined) {
+      request = request.limit(query.limit);
+    }
+
+    const snapshot = await request.get();
+    return snapshot.docs.map((doc) => doc.data() as PresenceTransition);
+  }
+
+  private history(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('presence').doc(userId).collection('history');
+  }
+}
@@ -0,0 +1,28 @@
+import { config } from '../../config/environment';
+import logger from '../../services/logger';
+import { FirestoreHistorySink } from './firestore-history-sink';
+import { PresenceHistorySink } from './history-sink';
+import { JsonlHistorySink } from './jsonl-history-sink';
+import { MemoryHistorySink } from './memory-history-sink';
+
+export type HistorySinkType = 'none' | 'memory' | 'jsonl' | 'firestore';
+
+/**
+ * Crea el destino del historial configurado en `HISTORY_SINK`.
+ * @returns El destino, o null si el historial está desactivado
+ */
+export function createHistorySink(type: HistorySinkType = config.history.sink): PresenceHistorySink | null {
+  switch (type) {
+    case 'none':
+      return null;
+    case 'memory':
+      logger.info(`Using in-memory presence history (${config.history.memoryCapacity} events)`);
+      return new MemoryHistorySink(config.history.memoryCapacity);
+    case 'jsonl':
+      logger.info(`Using JSONL presence history at ${config.history.filePath}`);
+      return new JsonlHistorySink(config.history.filePath);
+    case 'firestore':
+      logger.info('Using Firestore presence history');
+      return new FirestoreHistorySink();
+  }
+}
@@ -0,0 +1,24 @@
+import { PresenceTransition } from '../../types/websocket';
+
+// Filtro de consulta del historial de un usuario
+export interface HistoryQuery {
+  from: Date; // Inicio del rango (incluido)
+  to: Date; // Fin del rango (incluido)
+  limit?: number; // Máximo de eventos a devolver (sin límite si se omite)
+}
+
+/**
+ * Destino de los cambios de estado de presencia.
+ * Permite guardar el historial en memoria, en un archivo o en Firestore sin modificar `PresenceHistoryService`.
+ */
+export interface PresenceHistorySink {
+  /**
+   * Registra un cambio de estado.
+   */
+  record(transition: PresenceTransition): Promise<void>;
+
+  /**
+   * Devuelve los cambios de estado de un usuario dentro del rango, ordenados por fecha.
+   */
+  query(userId: string, query: HistoryQuery): Promise<PresenceTransition[]>;
+}
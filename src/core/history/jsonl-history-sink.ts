@@ -0,0 +1,63 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { PresenceTransition } from '../../types/websocket';
+import { HistoryQuery, PresenceHistorySink } from './history-sink';
+
+/**
+ * Historial en un archivo local JSONL (un evento por línea).
+ * - Útil para auditoría en un único nodo o para procesar el archivo con otras herramientas.
+ * - Las consultas recorren el archivo completo, así que no está pensado para volúmenes grandes.
+ */
+export class JsonlHistorySink implements PresenceHistorySink {
+  private ready?: Promise<void>;
+
+  constructor(private readonly filePath: string) {}
+
+  async record(transition: PresenceTransition): Promise<void> {
+    await this.ensureDirectory();
+    await fs.appendFile(this.filePath, `${JSON.stringify(transition)}\n`, 'utf8');
+  }
+
+  async query(userId: string, query: HistoryQuery): Promise<PresenceTransition[]> {
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      return [];
+    }
+
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+    const matches: PresenceTransition[] = [];
+    const lines = readline.createInterface({ input: createReadStream(this.filePath, 'utf8'), crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let transition: PresenceTransition;
+      try {
+        transition = JSON.parse(line);
+      } catch {
+        continue; // Línea incompleta (por ejemplo, tras una caída durante la escritura)
+      }
+
+      const timestamp = Date.parse(transition.timestamp);
+      if (transition.userId === userId && timestamp >= from && timestamp <= to) {
+        matches.push(transition);
+      }
+    }
+
+    matches.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    return query.limit === undefined ? matches : matches.slice(0, query.limit);
+  }
+
+  // Crea el directorio del archivo la primera vez que se escribe
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(path.dirname(this.filePath), { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+}
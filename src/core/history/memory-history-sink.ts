@@ -0,0 +1,39 @@
+import { PresenceTransition } from '../../types/websocket';
+import { HistoryQuery, PresenceHistorySink } from './history-sink';
+
+/**
+ * Historial en un buffer circular en memoria.
+ * - Conserva los últimos `capacity` eventos de todos los usuarios; los más antiguos se descartan.
+ * - Solo ve los cambios registrados por este nodo y se pierde al reiniciar.
+ */
+export class MemoryHistorySink implements PresenceHistorySink {
+  private readonly buffer: PresenceTransition[] = [];
+  private next = 0; // Posición en la que se escribirá el próximo evento
+
+  constructor(private readonly capacity: number) {}
+
+  async record(transition: PresenceTransition): Promise<void> {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(transition);
+    } else {
+      this.buffer[this.next] = transition;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  async query(userId: string, query: HistoryQuery): Promise<PresenceTransition[]> {
+    const from = query.from.getTime();
+    const to = query.to.getTime();
+
+    // Recorre el buffer desde el evento más antiguo
+    const ordered = this.buffer.length < this.capacity
+      ? this.buffer
+      : [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+
+    const matches = ordered.filter((transition) => {
+      const timestamp = Date.parse(transition.timestamp);
+      return transition.userId === userId && timestamp >= from && timestamp <= to;
+    });
+    return query.limit === undefined ? matches : matches.slice(0, query.limit);
+  }
+}
@@ -0,0 +1,101 @@
+import { DailyPresenceTime, PresenceTransition, UserPresenceStatus } from '../../types/websocket';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { HistoryQuery, PresenceHistorySink } from './history-sink';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Historial de cambios de estado de presencia.
+ * - Registra cada transición en el destino configurado sin bloquear ni romper el flujo de presencia.
+ * - Consulta las transiciones de un usuario y calcula el tiempo conectado por día.
+ */
+export class PresenceHistoryService {
+  constructor(private readonly sink: PresenceHistorySink) {}
+
+  /**
+   * Registra una transición; los errores del destino se registran pero no se propagan.
+   */
+  public async record(transition: PresenceTransition): Promise<void> {
+    try {
+      await this.sink.record(transition);
+      metricsService.incrementMessages('presence_history', 'outbound', 'success');
+    } catch (error) {
+      logger.error(`Error recording presence history for ${transition.userId}:`, error);
+      metricsService.incrementErrors('presence_history', 'low', 'server');
+    }
+  }
+
+  /**
+   * Transiciones de un usuario dentro de un rango, ordenadas por fecha.
+   */
+  public getTransitions(userId: string, query: HistoryQuery): Promise<PresenceTransition[]> {
+    return this.sink.query(userId, query);
+  }
+
+  /**
+   * Tiempo en cada estado por día (UTC) dentro del rango.
+   * - El estado al inicio del rango es el `from` de la primera transición posterior,
+   *   o el estado actual si no hubo cambios desde entonces.
+   * - Los tramos futuros (más allá de ahora) no se cuentan.
+   *
+   * @param currentStatus Estado actual del usuario
+   */
+  public async getDailyPresenceTime(
+    userId: string,
+    from: Date,
+    to: Date,
+    currentStatus: UserPresenceStatus
+  ): Promise<DailyPresenceTime[]> {
+    const now = new Date();
+    const end = Math.min(to.getTime(), now.getTime());
+    const transitions = await this.sink.query(userId, { from, to: now });
+
+    const days = new Map<string, DailyPresenceTime>();
+    for (let day = startOfDay(from.getTime()); day <= to.getTime(); day += DAY_MS) {
+      const date = toDateKey(day);
+      days.set(date, { date, online: 0, away: 0, busy: 0, total: 0 });
+    }
+
+    let status = transitions[0]?.from ?? currentStatus;
+    let cursor = from.getTime();
+    for (const transition of transitions) {
+      const timestamp = Date.parse(transition.timestamp);
+      if (timestamp > end) {
+        break;
+      }
+      this.accumulate(days, status, cursor, timestamp);
+      status = transition.to;
+      cursor = timestamp;
+    }
+    this.accumulate(days, status, cursor, end);
+
+    return Array.from(days.values());
+  }
+
+  // Suma el intervalo [start, end) al estado indicado, repartido entre los días que cruza
+  private accumulate(days: Map<string, DailyPresenceTime>, status: UserPresenceStatus, start: number, end: number): void {
+    if (status === UserPresenceStatus.OFFLINE) {
+      return;
+    }
+
+    let cursor = start;
+    while (cursor < end) {
+      const dayEnd = Math.min(startOfDay(cursor) + DAY_MS, end);
+      const day = days.get(toDateKey(cursor));
+      if (day) {
+        day[status] += dayEnd - cursor;
+        day.total += dayEnd - cursor;
+      }
+      cursor = dayEnd;
+    }
+  }
+}
+
+function startOfDay(timestamp: number): number {
+  return timestamp - (timestamp % DAY_MS);
+}
+
+function toDateKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
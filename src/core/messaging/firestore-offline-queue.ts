@@ -0,0 +1,48 @@
+import * as admin from 'firebase-admin';
+import { initializeFirebase } from '../../config/firebase-config';
+import { WebSocketMessage } from '../../types/websocket';
+import { OfflineMessageQueue, OfflineQueueOptions } from './offline-queue';
+
+/**
+ * Cola de mensajes pendientes en Firestore, en `message_queue/{userId}/messages`.
+ * Compartida por todos los nodos: el mensaje se entrega en el nodo al que se conecte el usuario.
+ */
+export class FirestoreOfflineQueue implements OfflineMessageQueue {
+  private readonly db: admin.firestore.Firestore;
+
+  constructor(private readonly options: OfflineQueueOptions) {
+    this.db = initializeFirebase().firestore();
+  }
+
+  async enqueue(userId: string, message: WebSocketMessage): Promise<void> {
+    const messages = this.messages(userId);
+    // Se serializa para que Firestore no rechace campos `undefined`
+    await messages.add({ message: JSON.stringify(message), queuedAt: Date.now() });
+
+    // Descarta los mensajes más antiguos por encima del límite
+    const overflow = await messages.orderBy('queuedAt', 'desc').offset(this.options.maxPerUser).get();
+    if (!overflow.empty) {
+      const batch = this.db.batch();
+      overflow.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  }
+
+  async drain(userId: string): Promise<WebSocketMessage[]> {
+    const expiredBefore = Date.now() - this.options.ttl;
+    const query = this.messages(userId).orderBy('queuedAt').limit(this.options.maxPerUser);
+
+    // La lectura y el borrado van en una transacción para que dos nodos no entreguen el mismo mensaje
+    return this.db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(query);
+      snapshot.docs.forEach((doc) => transaction.delete(doc.ref));
+      return snapshot.docs
+        .filter((doc) => doc.get('queuedAt') > expiredBefore)
+        .map((doc) => JSON.parse(doc.get('message')) as WebSocketMessage);
+    });
+  }
+
+  private messages(userId: string): admin.firestore.CollectionReference {
+    return this.db.collection('message_queue').doc(userId).collection('messages');
+  }
+}
@@ -0,0 +1,39 @@
+import { WebSocketMessage } from '../../types/websocket';
+import { OfflineMessageQueue, OfflineQueueOptions } from './offline-queue';
+
+// Mensaje encolado con su fecha de entrada
+interface QueuedMessage {
+  message: WebSocketMessage;
+  queuedAt: number;
+}
+
+/**
+ * Cola de mensajes pendientes en memoria.
+ * - Solo la ve este nodo y se pierde al reiniciar: pensada para un único nodo o desarrollo.
+ * - Los mensajes expirados se descartan al encolar y al extraer.
+ */
+export class MemoryOfflineQueue implements OfflineMessageQueue {
+  private readonly queues: Map<string, QueuedMessage[]> = new Map();
+
+  constructor(private readonly options: OfflineQueueOptions) {}
+
+  async enqueue(userId: string, message: WebSocketMessage): Promise<void> {
+    const queue = this.getLiveMessages(userId);
+    queue.push({ message, queuedAt: Date.now() });
+    if (queue.length > this.options.maxPerUser) {
+      queue.splice(0, queue.length - this.options.maxPerUser);
+    }
+    this.queues.set(userId, queue);
+  }
+
+  async drain(userId: string): Promise<WebSocketMessage[]> {
+    const queue = this.getLiveMessages(userId);
+    this.queues.delete(userId);
+    return queue.map((queued) => queued.message);
+  }
+
+  private getLiveMessages(userId: string): QueuedMessage[] {
+    const expiredBefore = Date.now() - this.options.ttl;
+    return (this.queues.get(userId) || []).filter((queued) => queued.queuedAt > expiredBefore);
+  }
+}
@@ -0,0 +1,25 @@
+import { config } from '../../config/environment';
+import logger from '../../services/logger';
+import { FirestoreOfflineQueue } from './firestore-offline-queue';
+import { MemoryOfflineQueue } from './memory-offline-queue';
+import { OfflineMessageQueue } from './offline-queue';
+
+export type OfflineQueueType = 'none' | 'memory' | 'firestore';
+
+/**
+ * Crea la cola de mensajes pendientes configurada en `MESSAGE_QUEUE`.
+ * @returns La cola, o null si los mensajes a usuarios desconectados se descartan
+ */
+export function createOfflineQueue(type: OfflineQueueType = config.messaging.queue): OfflineMessageQueue | null {
+  const options = { maxPerUser: config.messaging.maxQueuedPerUser, ttl: config.messaging.queueTtl };
+  switch (type) {
+    case 'none':
+      return null;
+    case 'memory':
+      logger.info(`Using in-memory offline message queue (${options.maxPerUser} messages per user)`);
+      return new MemoryOfflineQueue(options);
+    case 'firestore':
+      logger.info('Using Firestore offline message queue');
+      return new FirestoreOfflineQueue(options);
+  }
+}
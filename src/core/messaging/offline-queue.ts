@@ -0,0 +1,23 @@
+import { WebSocketMessage } from '../../types/websocket';
+
+/**
+ * Cola de mensajes pendientes para usuarios sin conexiones.
+ * Permite guardar la cola en memoria o en Firestore sin modificar `WebSocketServer`.
+ */
+export interface OfflineMessageQueue {
+  /**
+   * Encola un mensaje para un usuario; si la cola está llena se descarta el más antiguo.
+   */
+  enqueue(userId: string, message: WebSocketMessage): Promise<void>;
+
+  /**
+   * Extrae (y elimina) los mensajes pendientes no expirados de un usuario, del más antiguo al más reciente.
+   */
+  drain(userId: string): Promise<WebSocketMessage[]>;
+}
+
+// Opciones comunes de las colas
+export interface OfflineQueueOptions {
+  maxPerUser: number; // Mensajes que se conservan por usuario
+  ttl: number; // Milisegundos que un mensaje permanece en la cola
+}
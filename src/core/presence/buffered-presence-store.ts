@@ -0,0 +1,154 @@
+import { PresenceData } from '../../types/websocket';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { PresenceStore } from './presence-store';
+
+export interface BufferedPresenceStoreOptions {
+  window: number; // Milisegundos que se agrupan las escrituras antes de enviarlas
+  batchSize: number; // Máximo de usuarios por escritura en lote
+  maxRetries: number; // Reintentos de un lote fallido antes de descartarlo
+  retryBaseDelay: number; // Espera del primer reintento; se duplica en cada intento
+}
+
+// Retardo máximo entre reintentos
+const MAX_RETRY_DELAY = 30000;
+
+// Cambio pendiente de un usuario y las llamadas que esperan a que se guarde
+interface BufferedWrite {
+  presenceData: PresenceData;
+  waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Buffer de escritura diferida sobre otro almacenamiento de presencia.
+ * - Los cambios de un mismo usuario dentro de la ventana se combinan y se escriben juntos en lotes
+ *   de hasta `batchSize` usuarios. `updatePresence` se resuelve cuando su lote se guarda y se rechaza
+ *   si el lote se descarta tras agotar los reintentos.
+ * - Los lotes fallidos se reintentan con espera exponencial; si entretanto llega un cambio más
+ *   reciente del mismo usuario, prevalece el nuevo (y quien esperaba el anterior espera al nuevo).
+ * - Mientras un usuario tenga escrituras pendientes, las lecturas devuelven el dato pendiente y
+ *   se ignoran los ecos del almacenamiento (el estado en memoria es el más reciente).
+ */
+export class BufferedPresenceStore implements PresenceStore {
+  private pending: Map<string, BufferedWrite> = new Map();
+  private readonly inFlight: Map<string, PresenceData> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private commit: Promise<void> = Promise.resolve(); // Último lote encadenado
+
+  constructor(private readonly store: PresenceStore, private readonly options: BufferedPresenceStoreOptions) {}
+
+  updatePresence(presenceData: PresenceData): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const current = this.pending.get(presenceData.userId);
+      this.pending.set(presenceData.userId, {
+        presenceData: { ...current?.presenceData, ...presenceData },
+        waiters: [...(current?.waiters || []), { resolve, reject }],
+      });
+      metricsService.observeSystemMetrics('presence_write_buffer', this.pending.size);
+
+      if (this.pending.size === this.options.batchSize) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.options.window);
+      }
+    });
+  }
+
+  async getPresence(userId: string): Promise<PresenceData | null> {
+    const buffered = this.pending.get(userId)?.presenceData || this.inFlight.get(userId);
+    return buffered ? { ...buffered } : this.store.getPresence(userId);
+  }
+
+  async watchPresenceChanges(callback: (presenceData: PresenceData) => void): Promise<() => void> {
+    return this.store.watchPresenceChanges((presenceData) => {
+      if (!this.pending.has(presenceData.userId) && !this.inFlight.has(presenceData.userId)) {
+        callback(presenceData);
+      }
+    });
+  }
+
+  watchUserPresence(userId: string, callback: (presenceData: PresenceData) => void): () => void {
+    return this.store.watchUserPresence(userId, (presenceData) => {
+      if (!this.pending.has(userId) && !this.inFlight.has(userId)) {
+        callback(presenceData);
+      }
+    });
+  }
+
+  async cleanupOfflinePresence(nodeId: string, ownOnly: boolean): Promise<void> {
+    await this.flush();
+    await this.store.cleanupOfflinePresence(nodeId, ownOnly);
+  }
+
+  /**
+   * Escribe de inmediato lo pendiente y espera a que terminen los lotes en curso (incluidos sus reintentos).
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Los lotes se encadenan para que las escrituras de un mismo usuario lleguen en orden
+    this.commit = this.commit.then(() => this.writePending());
+    await this.commit;
+  }
+
+  // Escribe el buffer en lotes de `batchSize`
+  private async writePending(): Promise<void> {
+    const items = Array.from(this.pending.values());
+    this.pending = new Map();
+
+    for (let i = 0; i < items.length; i += this.options.batchSize) {
+      await this.writeBatch(items.slice(i, i + this.options.batchSize));
+    }
+  }
+
+  private async writeBatch(batch: BufferedWrite[]): Promise<void> {
+    batch.forEach((write) => this.inFlight.set(write.presenceData.userId, write.presenceData));
+    const start = Date.now();
+    let items = batch;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = items.map((write) => write.presenceData);
+        await (this.store.updatePresenceBatch
+          ? this.store.updatePresenceBatch(data)
+          : Promise.all(data.map((presenceData) => this.store.updatePresence(presenceData))));
+        metricsService.observeLatency('presence_batch_write', (Date.now() - start) / 1000);
+        items.forEach((write) => write.waiters.forEach((waiter) => waiter.resolve()));
+        break;
+      } catch (error) {
+        metricsService.incrementErrors('presence_batch_write', attempt < this.options.maxRetries ? 'medium' : 'high', 'server');
+        if (attempt >= this.options.maxRetries) {
+          logger.error(`Dropping presence batch of ${items.length} users after ${attempt + 1} attempts:`, error);
+          metricsService.incrementPresenceUpdates('batch_write', 'dropped');
+          items.forEach((write) => write.waiters.forEach((waiter) => waiter.reject(error)));
+          break;
+        }
+
+        const delay = Math.min(this.options.retryBaseDelay * 2 ** attempt, MAX_RETRY_DELAY);
+        logger.warn(`Presence batch write failed, retrying in ${delay}ms`, {
+          users: items.length,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+
+        // Los usuarios con un cambio más reciente en el buffer se escribirán con ese cambio
+        items = items.filter((write) => {
+          const newer = this.pending.get(write.presenceData.userId);
+          newer?.waiters.unshift(...write.waiters);
+          return !newer;
+        });
+        if (items.length === 0) {
+          break;
+        }
+      }
+    }
+
+    batch.forEach(({ presenceData }) => {
+      if (this.inFlight.get(presenceData.userId) === presenceData) {
+        this.inFlight.delete(presenceData.userId);
+      }
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { PresenceData, UserPresenceStatus } from '../../types/websocket';
+import logger from '../../services/logger';
+import { PresenceStore, nextPresenceVersion } from './presence-store';
+
+/**
+ * Almacenamiento de presencia en memoria.
+ * - No requiere credenciales: pensado para desarrollo local y tests.
+ * - Los datos se pierden al reiniciar el proceso.
+ */
+export class MemoryPresenceStore implements PresenceStore {
+  private readonly presence: Map<string, PresenceData> = new Map();
+  private readonly listeners: Set<(presenceData: PresenceData) => void> = new Set();
+
+  async updatePresence(presenceData: PresenceData): Promise<void> {
+    const current = this.presence.get(presenceData.userId);
+    const merged: PresenceData = {
+      ...current,
+      ...presenceData,
+      metadata: presenceData.metadata ? { ...presenceData.metadata } : current?.metadata,
+    };
+
+    this.presence.set(presenceData.userId, merged);
+    this.notify(merged);
+  }
+
+  async getPresence(userId: string): Promise<PresenceData | null> {
+    const presenceData = this.presence.get(userId);
+    return presenceData ? { ...presenceData } : null;
+  }
+
+  async watchPresenceChanges(callback: (presenceData: PresenceData) => void): Promise<() => void> {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  watchUserPresence(userId: string, callback: (presenceData: PresenceData) => void): () => void {
+    const listener = (presenceData: PresenceData) => {
+      if (presenceData.userId === userId) {
+        callback(presenceData);
+      }
+    };
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async cleanupOfflinePresence(nodeId: string, ownOnly: boolean): Promise<void> {
+    let cleaned = 0;
+    this.presence.forEach((presenceData, userId) => {
+      if (presenceData.status === UserPresenceStatus.ONLINE && (!ownOnly || presenceData.originNodeId === nodeId)) {
+        this.presence.set(userId, {
+          ...presenceData,
+          status: UserPresenceStatus.OFFLINE,
+          lastSeen: new Date().toISOString(),
+          devices: [],
+          originNodeId: nodeId,
+          version: nextPresenceVersion(presenceData),
+        });
+        cleaned++;
+      }
+    });
+    logger.info(`Marked ${cleaned} stale in-memory presence entries as offline`);
+  }
+
+  /**
+   * Notifica a los listeners de forma asíncrona, como lo haría un snapshot de Firestore.
+   */
+  private notify(presenceData: PresenceData): void {
+    this.listeners.forEach((listener) => {
+      setImmediate(() => {
+        try {
+          listener({ ...presenceData });
+        } catch (error) {
+          logger.error('Error in in-memory presence listener:', error);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { DevicePresence, PresenceAggregationPolicy, UserPresenceStatus } from '../../types/websocket';
+
+// Orden de disponibilidad: el primer estado es el "más disponible"
+const AVAILABILITY_ORDER: UserPresenceStatus[] = [
+  UserPresenceStatus.ONLINE,
+  UserPresenceStatus.AWAY,
+  UserPresenceStatus.BUSY,
+  UserPresenceStatus.OFFLINE,
+];
+
+/**
+ * Calcula el estado de un usuario a partir del estado de cada uno de sus dispositivos.
+ * - `most_available`: gana el estado más disponible (un dispositivo `online` mantiene al usuario `online`).
+ * - `explicit_wins`: gana el último estado fijado explícitamente por el usuario; si no hay ninguno,
+ *   se aplica `most_available`.
+ *
+ * @returns El estado agregado (`offline` si no hay dispositivos)
+ */
+export function aggregateDeviceStatus(
+  devices: DevicePresence[],
+  policy: PresenceAggregationPolicy
+): UserPresenceStatus {
+  if (policy === 'explicit_wins') {
+    const explicit = devices
+      .filter((device) => device.explicit && device.status !== UserPresenceStatus.OFFLINE)
+      .sort((a, b) => b.statusChangedAt.localeCompare(a.statusChangedAt));
+    if (explicit.length > 0) {
+      return explicit[0].status;
+    }
+  }
+
+  return devices.reduce<UserPresenceStatus>(
+    (best, device) =>
+      AVAILABILITY_ORDER.indexOf(device.status) < AVAILABILITY_ORDER.indexOf(best) ? device.status : best,
+    UserPresenceStatus.OFFLINE
+  );
+}
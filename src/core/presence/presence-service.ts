@@ -1,50 +1,235 @@
-import WebSocket from 'ws';
-import { WebSocketClient, PresenceData, UserPresenceStatus } from '../../types/websocket';
-import { firebaseService } from '../../services/firebase-service';
+import {
+  ClientType,
+  DevicePresence,
+  WebSocketClient,
+  PresenceData,
+  PresenceServiceOptions,
+  PresenceTransition,
+  PresenceTransitionReason,
+  UserPresenceStatus,
+  WebSocketMessageType,
+} from '../../types/websocket';
+import { randomBytes } from 'crypto';
 import logger from '../../services/logger';
 import { metricsService } from '../../services/metrics-service';
+import { sendMessage } from '../websocket/message-sender';
+import { EncodedMessage } from '../websocket/codec';
+import { PresenceStore, nextPresenceVersion } from './presence-store';
+import { ClusterService } from '../cluster/cluster-service';
+import { aggregateDeviceStatus } from './presence-aggregation';
+
+// Valores por defecto de las opciones del servicio
+const DEFAULT_OPTIONS: PresenceServiceOptions = {
+  idleTimeout: 5 * 60 * 1000, // Cinco minutos sin actividad
+  aggregationPolicy: 'most_available', // Un dispositivo disponible mantiene al usuario disponible
+  resumeGracePeriod: 30 * 1000, // Treinta segundos para reconectar tras un corte
+  nodeId: 'local', // Sin clúster solo identifica los ecos de este proceso
+  storeWatchScope: 'all', // Escucha todo el almacenamiento
+};
+
+// Causa de un recálculo de presencia, registrada en el historial si cambia el estado
+interface TransitionCause {
+  reason: PresenceTransitionReason;
+  deviceId?: string;
+}
+
+// Sesión retenida tras un corte, a la espera de que el cliente la reanude
+interface HeldSession {
+  userId: string;
+  client: WebSocketClient; // Socket cerrado, con su dispositivo y suscripciones
+  timer: NodeJS.Timeout; // Libera la sesión al terminar el periodo de gracia
+}
 
 /**
  * Servicio para manejar la presencia de usuarios en tiempo real.
  * - Gestiona el estado de conexión de usuarios (`online`/`offline`).
- * - Sincroniza cambios con Firebase y notifica actualizaciones a través de WebSocket.
+ * - Sincroniza cambios con el almacenamiento configurado y notifica actualizaciones a través de WebSocket.
+ * - Solo notifica a los sockets suscritos al usuario que cambió.
+ * - Con un `ClusterService`, considera las conexiones de todos los nodos antes de marcar a un usuario `offline`.
+ * - Pasa a `away` a los dispositivos inactivos y los devuelve a `online` con la siguiente actividad.
+ * - Mantiene el estado de cada dispositivo y calcula el del usuario según la política de agregación.
+ * - Tras un corte de red conserva la sesión durante un periodo de gracia para reanudarla sin
+ *   transiciones `offline`/`online`.
  */
 export class PresenceService {
   private presenceMap: Map<string, PresenceData>; // Almacena el estado de presencia de los usuarios
   private connections: Map<string, Set<WebSocketClient>>; // Almacena conexiones activas de WebSocket por usuario
-  private unsubscribeFirebase?: () => void; // Función para detener la escucha de Firebase
+  private watchers: Map<string, Set<WebSocketClient>>; // Índice inverso: usuario observado -> sockets suscritos
+  private unsubscribeStore?: () => void; // Función para detener la escucha del almacenamiento
+  private userWatches: Map<string, () => void> = new Map(); // Escuchas por usuario (alcance `subscribed`)
+  private idleCheckInterval: NodeJS.Timeout | null = null; // Temporizador de detección de inactividad
+  private pendingWrites: Set<Promise<void>> = new Set(); // Escrituras en curso en el almacenamiento
+  private heldSessions: Map<string, HeldSession> = new Map(); // Sesiones retenidas por token de reanudación
+  private readonly transitionListeners: Set<(transition: PresenceTransition) => void> = new Set();
+  private readonly changeListeners: Set<(presenceData: PresenceData) => void> = new Set();
+  private readonly resumeListeners: Set<(previous: WebSocketClient, client: WebSocketClient) => void> = new Set();
+  private readonly expiryListeners: Set<(client: WebSocketClient) => void> = new Set();
+  private readonly options: PresenceServiceOptions;
 
-  constructor() {
+  constructor(private store: PresenceStore, private cluster?: ClusterService, options: Partial<PresenceServiceOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
     this.presenceMap = new Map(); // Inicializa el mapa de presencias
     this.connections = new Map(); // Inicializa el mapa de conexiones activas
-    this.initializeFirebaseListener(); // Inicia la escucha de cambios de presencia en Firebase
+    this.watchers = new Map(); // Inicializa el índice de suscripciones
+    this.initializeStoreListener(); // Inicia la escucha de cambios de presencia en el almacenamiento
+    this.initializeClusterListener(); // Recibe los cambios de presencia de otros nodos
+    this.startIdleDetection(); // Revisa periódicamente la inactividad de los usuarios
+  }
+
+  /**
+   * Inicia la revisión periódica de inactividad (si `idleTimeout` es mayor que 0).
+   */
+  private startIdleDetection(): void {
+    if (this.options.idleTimeout <= 0) {
+      return;
+    }
+
+    const checkEvery = Math.max(1000, Math.min(30000, this.options.idleTimeout / 2));
+    this.idleCheckInterval = setInterval(() => {
+      this.checkIdleUsers().catch((error) => {
+        logger.error('Error checking idle users:', error);
+        metricsService.incrementErrors('idle_check', 'low', 'server');
+      });
+    }, checkEvery);
+  }
+
+  /**
+   * Pasa a `away` los dispositivos `online` que superaron el tiempo de inactividad.
+   * - El estado del usuario se recalcula con la política de agregación, así que un solo
+   *   dispositivo activo mantiene al usuario `online`.
+   * - Solo cambia dispositivos `online`, por lo que un `busy` o `away` manual nunca se sobrescribe.
+   */
+  private async checkIdleUsers(): Promise<void> {
+    const now = Date.now();
+    for (const [userId, clients] of this.connections) {
+      let changed = false;
+      clients.forEach((client) => {
+        const device = client.device;
+        if (device?.status === UserPresenceStatus.ONLINE && now - (client.lastActivityTime || 0) >= this.options.idleTimeout) {
+          this.setDeviceStatus(device, UserPresenceStatus.AWAY, false);
+          changed = true;
+        }
+      });
+
+      if (changed) {
+        await this.refreshUserPresence(userId, { reason: 'idle' });
+        metricsService.incrementPresenceUpdates('auto_away', 'success');
+        logger.debug(`Idle devices of ${userId} marked away`);
+      }
+    }
+  }
+
+  /**
+   * Registra actividad en un socket.
+   * - Si el dispositivo estaba `away` por inactividad, vuelve a `online`.
+   */
+  public async recordActivity(client: WebSocketClient): Promise<void> {
+    client.lastActivityTime = Date.now();
+    const device = client.device;
+    if (!device || !client.userId) {
+      return;
+    }
+
+    device.lastActive = new Date(client.lastActivityTime).toISOString();
+    if (device.status === UserPresenceStatus.AWAY && !device.explicit) {
+      this.setDeviceStatus(device, UserPresenceStatus.ONLINE, false);
+      await this.refreshUserPresence(client.userId, { reason: 'activity', deviceId: device.deviceId });
+      metricsService.incrementPresenceUpdates('auto_online', 'success');
+      logger.debug(`Device ${device.deviceId} of ${client.userId} back online after activity`);
+    }
+  }
+
+  // Cambia el estado de un dispositivo y registra si fue explícito
+  private setDeviceStatus(device: DevicePresence, status: UserPresenceStatus, explicit: boolean): void {
+    device.status = status;
+    device.explicit = explicit;
+    device.statusChangedAt = new Date().toISOString();
+  }
+
+  /**
+   * Conecta el servicio con el clúster, si existe.
+   * - Aplica los cambios de presencia publicados por otros nodos.
+   * - Marca `offline` a los usuarios que se quedan sin conexiones cuando un nodo cae.
+   */
+  private initializeClusterListener(): void {
+    if (!this.cluster) {
+      return;
+    }
+
+    this.cluster.onPresence((presenceData) => this.handlePresenceUpdate(presenceData));
+    this.cluster.onNodeDown((_nodeId, userIds) => this.reconcileClusterPresence(userIds));
+    this.cluster.onSweep(() => this.reconcileClusterPresence());
+  }
+
+  /**
+   * Marca `offline` a los usuarios sin conexiones en ningún nodo.
+   * Solo lo hace el nodo líder, y únicamente cuando ya conoce el estado del resto del clúster.
+   */
+  private async reconcileClusterPresence(userIds?: string[]): Promise<void> {
+    if (!this.cluster || !this.cluster.isLeader() || !this.cluster.isSettled()) {
+      return;
+    }
+
+    const candidates = userIds || Array.from(this.presenceMap.keys());
+    for (const userId of candidates) {
+      const presenceData = this.presenceMap.get(userId);
+      if (
+        presenceData?.status !== UserPresenceStatus.OFFLINE &&
+        !this.connections.has(userId) &&
+        this.cluster.getRemoteConnectionCount(userId) === 0
+      ) {
+        try {
+          await this.setOffline(userId, { reason: 'cluster' });
+          logger.info(`User ${userId} marked offline after cluster reconciliation`);
+        } catch (error) {
+          logger.error(`Error reconciling presence for ${userId}:`, error);
+          metricsService.incrementErrors('cluster_reconcile', 'medium', 'server');
+        }
+      }
+    }
   }
 
   /**
-   * Inicializa el listener de Firebase para cambios de presencia.
-   * - Limpia estados offline antiguos.
-   * - Escucha actualizaciones de presencia en tiempo real.
+   * Inicializa el listener del almacenamiento para cambios de presencia.
+   * - Limpia los estados `online` que quedaron de una ejecución anterior: sin clúster todos (este es el
+   *   único nodo); con clúster solo los que escribió este nodo, porque los demás pueden seguir vivos.
+   * - Con alcance `all`, escucha en tiempo real todo el almacenamiento; con `subscribed`, solo los
+   *   usuarios con suscriptores en este nodo (la escucha se abre y cierra con las suscripciones).
    */
-  private async initializeFirebaseListener(): Promise<void> {
+  private async initializeStoreListener(): Promise<void> {
     try {
-      await firebaseService.cleanupOfflinePresence(); // Limpieza inicial de estados offline en Firebase
-      this.unsubscribeFirebase = await firebaseService.watchPresenceChanges(
-        (presenceData) => this.handlePresenceUpdate(presenceData)
-      );
-      logger.info('Firebase presence listener initialized');
+      await this.store.cleanupOfflinePresence(this.nodeId, this.cluster !== undefined);
+      if (this.options.storeWatchScope === 'all') {
+        this.unsubscribeStore = await this.store.watchPresenceChanges(
+          (presenceData) => this.handlePresenceUpdate(presenceData)
+        );
+      }
+      logger.info(`Presence store listener initialized (scope: ${this.options.storeWatchScope})`);
     } catch (error) {
-      logger.error('Error initializing Firebase listener:', error);
-      metricsService.incrementErrors('firebase_init', 'high', 'server');
+      logger.error('Error initializing presence store listener:', error);
+      metricsService.incrementErrors('store_init', 'high', 'server');
     }
   }
 
   /**
-   * Maneja las actualizaciones de presencia provenientes de Firebase.
-   * - Actualiza el mapa local de presencias.
-   * - Difunde el cambio a través de WebSocket.
+   * Maneja las actualizaciones de presencia provenientes del almacenamiento o de otros nodos.
+   * - Ignora los ecos de las escrituras de este nodo (ya se difundieron al escribirlas).
+   * - Descarta las versiones anteriores o iguales a la que ya se conoce (llegan desordenadas o duplicadas).
+   * - Actualiza el mapa local de presencias y difunde el cambio a través de WebSocket.
    */
   private handlePresenceUpdate(presenceData: PresenceData): void {
     try {
+      if (presenceData.originNodeId === this.nodeId) {
+        metricsService.incrementPresenceUpdates('self_echo', 'ignored');
+        return;
+      }
+
+      const current = this.presenceMap.get(presenceData.userId);
+      if (current?.version !== undefined && presenceData.version !== undefined && presenceData.version <= current.version) {
+        metricsService.incrementPresenceUpdates('stale', 'ignored');
+        return;
+      }
+
       this.presenceMap.set(presenceData.userId, presenceData);
       this.broadcastPresenceUpdate(presenceData.userId);
       metricsService.incrementMessages('presence_update', 'inbound', 'success');
@@ -56,8 +241,8 @@ export class PresenceService {
 
   /**
    * Agrega una conexión WebSocket para un usuario.
-   * - Actualiza el estado de presencia del usuario a `online`.
-   * - Notifica a Firebase y registra métricas.
+   * - Registra el dispositivo de la conexión como `online`.
+   * - Recalcula, persiste y difunde la presencia del usuario y registra métricas.
    */
   public async addConnection(userId: string, client: WebSocketClient): Promise<void> {
     try {
@@ -65,15 +250,22 @@ export class PresenceService {
         this.connections.set(userId, new Set());
       }
       this.connections.get(userId)?.add(client);
+      this.cluster?.setLocalConnections(userId, this.connections.get(userId)?.size || 0);
+      client.resumeToken = this.createResumeToken();
 
-      const presenceData: PresenceData = {
-        userId,
+      const now = new Date();
+      client.lastActivityTime = now.getTime();
+      client.device = {
+        deviceId: client.deviceId || 'unknown',
+        clientType: client.clientType || ClientType.UNKNOWN,
         status: UserPresenceStatus.ONLINE,
-        lastSeen: new Date().toISOString(),
+        explicit: false,
+        statusChangedAt: now.toISOString(),
+        lastActive: now.toISOString(),
+        nodeId: this.nodeId,
       };
 
-      this.presenceMap.set(userId, presenceData);
-      await firebaseService.updatePresence(presenceData);
+      await this.refreshUserPresence(userId, { reason: 'connect', deviceId: client.device.deviceId });
       metricsService.incrementConnections('success', 'presence', 'websocket');
       logger.info(`User ${userId} connected. Active connections: ${this.connections.get(userId)?.size}`);
     } catch (error) {
@@ -83,29 +275,143 @@ export class PresenceService {
     }
   }
 
+  /**
+   * Reanuda una sesión retenida tras un corte.
+   * - El nuevo socket hereda el dispositivo y las suscripciones del anterior, sin cambios de presencia.
+   * - Si el servidor aún no detectó el corte, el socket anterior sigue registrado: se sustituye y se cierra.
+   * - Emite un token de reanudación nuevo y avisa a los listeners de `onSessionResumed`.
+   *
+   * @returns El estado actual de los usuarios suscritos, o null si el token no es válido
+   *          (en ese caso el cliente debe conectarse con `addConnection`)
+   */
+  public async resumeConnection(userId: string, client: WebSocketClient, resumeToken: string): Promise<PresenceData[] | null> {
+    const session = this.heldSessions.get(resumeToken);
+    const previous = session?.client || this.findConnectionByResumeToken(userId, resumeToken);
+    if (!previous || (session && session.userId !== userId)) {
+      metricsService.observeReconnection(client.clientType || ClientType.UNKNOWN, session ? 'user_mismatch' : 'expired');
+      return null;
+    }
+
+    if (session) {
+      clearTimeout(session.timer);
+      this.heldSessions.delete(resumeToken);
+    } else {
+      // Su cierre no debe liberar la sesión que ahora es del nuevo socket
+      previous.superseded = true;
+      previous.terminate();
+    }
+
+    const subscriptions = Array.from(previous.subscriptions || []);
+    this.removeSubscriber(previous);
+    previous.resumeToken = undefined;
+    const userConnections = this.connections.get(userId);
+    userConnections?.delete(previous);
+    userConnections?.add(client);
+
+    client.deviceId = previous.deviceId;
+    client.device = previous.device;
+    client.lastActivityTime = Date.now();
+    client.resumeToken = this.createResumeToken();
+    this.notifySession(this.resumeListeners, previous, client);
+
+    const snapshot = await this.subscribe(client, subscriptions);
+    metricsService.observeReconnection(client.clientType || ClientType.UNKNOWN, 'resumed');
+    logger.info(`User ${userId} resumed session on device ${client.deviceId}`);
+    return snapshot;
+  }
+
+  /**
+   * Retiene la sesión de un socket cerrado por un corte de red durante el periodo de gracia.
+   * - El dispositivo sigue contando para la presencia del usuario, así que no hay transición a `offline`.
+   * - Si el cliente no reanuda la sesión a tiempo, avisa a los listeners de `onSessionExpired` y la
+   *   conexión se elimina con normalidad.
+   *
+   * @returns false si la sesión no se puede retener (periodo de gracia desactivado o sin token)
+   */
+  public holdConnection(userId: string, client: WebSocketClient): boolean {
+    const resumeToken = client.resumeToken;
+    if (this.options.resumeGracePeriod <= 0 || !resumeToken || !this.connections.get(userId)?.has(client)) {
+      return false;
+    }
+
+    // Se conservan las suscripciones en el socket, pero deja de recibir difusiones
+    const subscriptions = new Set(client.subscriptions);
+    this.removeSubscriber(client);
+    client.subscriptions = subscriptions;
+
+    const timer = setTimeout(() => {
+      this.heldSessions.delete(resumeToken);
+      this.notifySession(this.expiryListeners, client);
+      this.removeConnection(userId, client).catch(() => undefined);
+    }, this.options.resumeGracePeriod);
+    this.heldSessions.set(resumeToken, { userId, client, timer });
+
+    logger.debug(`Holding session of ${userId} for ${this.options.resumeGracePeriod}ms`);
+    return true;
+  }
+
+  /**
+   * Registra un listener para las sesiones reanudadas, con el socket anterior y el que lo sustituye
+   * (por ejemplo, para traspasar las salas).
+   */
+  public onSessionResumed(listener: (previous: WebSocketClient, client: WebSocketClient) => void): void {
+    this.resumeListeners.add(listener);
+  }
+
+  /**
+   * Registra un listener para las sesiones retenidas cuyo periodo de gracia terminó sin reanudarse.
+   */
+  public onSessionExpired(listener: (client: WebSocketClient) => void): void {
+    this.expiryListeners.add(listener);
+  }
+
+  private notifySession<T extends unknown[]>(listeners: Set<(...args: T) => void>, ...args: T): void {
+    listeners.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        logger.error('Error in session listener:', error);
+      }
+    });
+  }
+
+  // Busca entre las conexiones activas del usuario la que emitió el token
+  private findConnectionByResumeToken(userId: string, resumeToken: string): WebSocketClient | undefined {
+    return Array.from(this.connections.get(userId) || []).find((connection) => connection.resumeToken === resumeToken);
+  }
+
+  // Genera un token opaco de reanudación
+  private createResumeToken(): string {
+    return randomBytes(24).toString('base64url');
+  }
+
   /**
    * Remueve una conexión WebSocket para un usuario.
    * - Si no quedan conexiones activas, actualiza el estado de presencia a `offline`.
-   * - Notifica a Firebase y difunde el cambio.
+   * - En otro caso, recalcula la presencia con los dispositivos restantes.
+   * - Persiste el nuevo estado y lo difunde.
    */
   public async removeConnection(userId: string, client: WebSocketClient): Promise<void> {
     try {
+      this.removeSubscriber(client);
+
+      const cause: TransitionCause = { reason: 'disconnect', deviceId: client.device?.deviceId };
       const userConnections = this.connections.get(userId);
       if (userConnections) {
         userConnections.delete(client);
+        this.cluster?.setLocalConnections(userId, userConnections.size);
 
         if (userConnections.size === 0) {
-          const presenceData: PresenceData = {
-            userId,
-            status: UserPresenceStatus.OFFLINE,
-            lastSeen: new Date().toISOString(),
-          };
-
-          this.presenceMap.set(userId, presenceData);
           this.connections.delete(userId);
-          await firebaseService.updatePresence(presenceData);
-          this.broadcastPresenceUpdate(userId);
-          metricsService.incrementMessages('presence_offline', 'outbound', 'success');
+
+          // El usuario sigue online si tiene conexiones en otro nodo
+          if (!this.cluster || this.cluster.getRemoteConnectionCount(userId) === 0) {
+            await this.setOffline(userId, cause);
+          } else {
+            await this.refreshUserPresence(userId, cause);
+          }
+        } else {
+          await this.refreshUserPresence(userId, cause);
         }
 
         logger.info(`User ${userId} disconnected. Remaining connections: ${userConnections.size}`);
@@ -118,28 +424,151 @@ export class PresenceService {
   }
 
   /**
-   * Actualiza el estado de presencia de un usuario.
-   * - Permite añadir metadatos personalizados.
-   * - Difunde el cambio y registra métricas.
+   * Marca a un usuario como `offline`, lo persiste y lo difunde a suscriptores locales y remotos.
+   */
+  private async setOffline(userId: string, cause: TransitionCause): Promise<void> {
+    const previous = this.presenceMap.get(userId);
+    const presenceData: PresenceData = {
+      userId,
+      status: UserPresenceStatus.OFFLINE,
+      lastSeen: new Date().toISOString(),
+      ...(previous?.metadata ? { metadata: previous.metadata } : {}), // Firestore rechaza los campos `undefined`
+      devices: [],
+      originNodeId: this.nodeId,
+      version: nextPresenceVersion(previous),
+    };
+
+    this.presenceMap.set(userId, presenceData);
+    this.persistInBackground(presenceData);
+    this.emitTransition(previous, presenceData, cause);
+    this.broadcastPresenceUpdate(userId);
+    this.cluster?.publishPresence(presenceData);
+    metricsService.incrementMessages('presence_offline', 'outbound', 'success');
+  }
+
+  /**
+   * Guarda la presencia en el almacenamiento registrando la escritura como pendiente hasta que termine.
    */
-  public async updatePresence(userId: string, status: UserPresenceStatus, metadata?: Record<string, any>): Promise<void> {
+  private async persist(presenceData: PresenceData): Promise<void> {
+    const write = this.store.updatePresence(presenceData);
+    this.pendingWrites.add(write);
     try {
-      const presenceData = this.presenceMap.get(userId) || {
+      await write;
+    } finally {
+      this.pendingWrites.delete(write);
+    }
+  }
+
+  /**
+   * Guarda la presencia sin que nadie espere a la escritura (conexión, desconexión, inactividad...).
+   * El cambio ya se difundió, así que un fallo solo se registra; `flush` sigue esperándola.
+   */
+  private persistInBackground(presenceData: PresenceData): void {
+    this.persist(presenceData).catch((error) => {
+      logger.error(`Error persisting presence for ${presenceData.userId}:`, error);
+      metricsService.incrementErrors('presence_persist', 'medium', 'server');
+    });
+  }
+
+  /**
+   * Espera a que terminen las escrituras pendientes en el almacenamiento (incluidas las que retiene su buffer).
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush?.();
+    await Promise.allSettled(Array.from(this.pendingWrites));
+  }
+
+  /**
+   * Actualiza el estado de presencia por petición explícita.
+   * - Con `client`, cambia solo el estado de ese dispositivo (petición del propio cliente).
+   * - Sin `client` (administrador), se aplica a todos los dispositivos locales del usuario,
+   *   o directamente al usuario si no tiene conexiones en este nodo.
+   * - Permite añadir metadatos personalizados al usuario.
+   */
+  public async updatePresence(
+    userId: string,
+    status: UserPresenceStatus,
+    metadata?: Record<string, any>,
+    client?: WebSocketClient
+  ): Promise<void> {
+    const devices = client?.device ? [client.device] : this.getLocalDevices(userId);
+    devices.forEach((device) => this.setDeviceStatus(device, status, true));
+
+    const cause: TransitionCause = client
+      ? { reason: 'explicit', deviceId: client.device?.deviceId }
+      : { reason: 'admin' };
+    await this.refreshUserPresence(userId, cause, {
+      metadata,
+      status: devices.length === 0 ? status : undefined,
+    }, true);
+  }
+
+  // Dispositivos conectados a este nodo
+  private getLocalDevices(userId: string): DevicePresence[] {
+    const devices: DevicePresence[] = [];
+    this.connections.get(userId)?.forEach((client) => {
+      if (client.device) {
+        devices.push(client.device);
+      }
+    });
+    return devices;
+  }
+
+  // Dispositivos del usuario conectados a otros nodos vivos del clúster
+  private getRemoteDevices(userId: string): DevicePresence[] {
+    const cluster = this.cluster;
+    if (!cluster) {
+      return [];
+    }
+
+    return (this.presenceMap.get(userId)?.devices || []).filter(
+      (device) => device.nodeId !== cluster.nodeId && device.nodeId !== undefined && cluster.isNodeAlive(device.nodeId)
+    );
+  }
+
+  // Identificador de este nodo en el desglose por dispositivo
+  private get nodeId(): string {
+    return this.cluster?.nodeId || this.options.nodeId;
+  }
+
+  /**
+   * Recalcula la presencia del usuario a partir de sus dispositivos y la publica.
+   * - `status` fuerza el estado cuando el usuario no tiene dispositivos (p. ej. forzado por un administrador).
+   * - Persiste, difunde a suscriptores locales y remotos y registra métricas.
+   * - Con `waitForWrite` no termina hasta que el cambio está guardado (el `ack` del cliente lo confirma);
+   *   sin él, la escritura sigue en segundo plano y un fallo solo se registra.
+   * - Si el estado cambia, notifica la transición con su causa.
+   */
+  private async refreshUserPresence(
+    userId: string,
+    cause: TransitionCause,
+    overrides: { status?: UserPresenceStatus; metadata?: Record<string, any> } = {},
+    waitForWrite: boolean = false
+  ): Promise<void> {
+    try {
+      const previous = this.presenceMap.get(userId);
+      const devices = [...this.getLocalDevices(userId), ...this.getRemoteDevices(userId)].map((device) => ({ ...device }));
+      const status = overrides.status || aggregateDeviceStatus(devices, this.options.aggregationPolicy);
+      const metadata = overrides.metadata ? { ...previous?.metadata, ...overrides.metadata } : previous?.metadata;
+
+      const presenceData: PresenceData = {
         userId,
-        status: UserPresenceStatus.ONLINE,
+        status,
         lastSeen: new Date().toISOString(),
+        ...(metadata ? { metadata } : {}), // Firestore rechaza los campos `undefined` (p. ej. en la primera conexión)
+        devices,
+        originNodeId: this.nodeId,
+        version: nextPresenceVersion(previous),
       };
 
-      presenceData.status = status;
-      presenceData.lastSeen = new Date().toISOString();
-      if (metadata) {
-        presenceData.metadata = { ...presenceData.metadata, ...metadata };
-      }
-
+      // Se difunde sin esperar al almacenamiento: puede retener la escritura en su buffer y reintentarla
       this.presenceMap.set(userId, presenceData);
-      await firebaseService.updatePresence(presenceData);
+      const write = waitForWrite ? this.persist(presenceData) : this.persistInBackground(presenceData);
+      this.emitTransition(previous, presenceData, cause);
       this.broadcastPresenceUpdate(userId);
+      this.cluster?.publishPresence(presenceData);
       metricsService.incrementMessages('presence_update', 'outbound', 'success');
+      await write;
       logger.debug(`Updated presence for ${userId} to ${status}`);
     } catch (error) {
       logger.error(`Error updating presence for ${userId}:`, error);
@@ -149,25 +578,157 @@ export class PresenceService {
   }
 
   /**
-   * Difunde actualizaciones de presencia a todos los clientes conectados.
+   * Registra un listener para los cambios de estado de los usuarios provocados en este nodo
+   * (por ejemplo, para el historial de presencia).
+   */
+  public onTransition(listener: (transition: PresenceTransition) => void): void {
+    this.transitionListeners.add(listener);
+  }
+
+  // Notifica el cambio de estado si el nuevo estado es distinto del anterior
+  private emitTransition(previous: PresenceData | undefined, presenceData: PresenceData, cause: TransitionCause): void {
+    const from = previous?.status || UserPresenceStatus.OFFLINE;
+    if (from === presenceData.status) {
+      return;
+    }
+
+    const transition: PresenceTransition = {
+      userId: presenceData.userId,
+      from,
+      to: presenceData.status,
+      deviceId: cause.deviceId,
+      timestamp: presenceData.lastSeen,
+      reason: cause.reason,
+      nodeId: this.nodeId,
+    };
+    this.transitionListeners.forEach((listener) => {
+      try {
+        listener(transition);
+      } catch (error) {
+        logger.error('Error in presence transition listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Suscribe un socket a los cambios de presencia de una lista de usuarios.
+   * - Registra el socket en el índice inverso de cada usuario.
+   * - Devuelve el estado actual de cada usuario solicitado.
+   */
+  public async subscribe(client: WebSocketClient, userIds: string[]): Promise<PresenceData[]> {
+    if (!client.subscriptions) {
+      client.subscriptions = new Set();
+    }
+
+    const snapshot: PresenceData[] = [];
+    for (const userId of new Set(userIds)) {
+      if (!this.watchers.has(userId)) {
+        this.watchers.set(userId, new Set());
+        this.watchUser(userId);
+      }
+      this.watchers.get(userId)?.add(client);
+      client.subscriptions.add(userId);
+
+      snapshot.push(await this.getPresenceSnapshot(userId));
+    }
+
+    metricsService.incrementMessages('presence_subscribe', 'inbound', 'success');
+    logger.debug(`Client of ${client.userId} subscribed to ${userIds.length} users`);
+    return snapshot;
+  }
+
+  /**
+   * Cancela la suscripción de un socket a una lista de usuarios.
+   */
+  public unsubscribe(client: WebSocketClient, userIds: string[]): void {
+    userIds.forEach((userId) => {
+      client.subscriptions?.delete(userId);
+      const userWatchers = this.watchers.get(userId);
+      if (userWatchers) {
+        userWatchers.delete(client);
+        if (userWatchers.size === 0) {
+          this.watchers.delete(userId);
+          this.userWatches.get(userId)?.();
+          this.userWatches.delete(userId);
+        }
+      }
+    });
+  }
+
+  // Con alcance `subscribed`, empieza a escuchar en el almacenamiento a un usuario recién observado
+  private watchUser(userId: string): void {
+    if (this.options.storeWatchScope === 'subscribed') {
+      this.userWatches.set(userId, this.store.watchUserPresence(userId, (presenceData) => this.handlePresenceUpdate(presenceData)));
+    }
+  }
+
+  /**
+   * Elimina todas las suscripciones de un socket (por ejemplo, al cerrarse).
+   */
+  public removeSubscriber(client: WebSocketClient): void {
+    if (client.subscriptions) {
+      this.unsubscribe(client, Array.from(client.subscriptions));
+    }
+  }
+
+  /**
+   * Obtiene el estado de presencia de un usuario para una suscripción.
+   * - Usa el mapa local y, si no existe, consulta el almacenamiento.
+   * - Si el usuario no tiene registro se considera `offline`.
+   */
+  private async getPresenceSnapshot(userId: string): Promise<PresenceData> {
+    const local = this.presenceMap.get(userId);
+    if (local) {
+      return local;
+    }
+
+    try {
+      const stored = await this.store.getPresence(userId);
+      if (stored) {
+        this.presenceMap.set(userId, stored);
+        return stored;
+      }
+    } catch (error) {
+      logger.error(`Error fetching presence snapshot for ${userId}:`, error);
+      metricsService.incrementErrors('presence_snapshot', 'low', 'server');
+    }
+
+    return { userId, status: UserPresenceStatus.OFFLINE, lastSeen: '' };
+  }
+
+  /**
+   * Registra un listener para cualquier cambio de presencia difundido por este nodo
+   * (propio, del almacenamiento o de otros nodos), por ejemplo para las salas.
+   */
+  public onPresenceChange(listener: (presenceData: PresenceData) => void): void {
+    this.changeListeners.add(listener);
+  }
+
+  /**
+   * Difunde actualizaciones de presencia a los sockets suscritos al usuario.
    */
   private broadcastPresenceUpdate(userId: string): void {
     try {
       const presenceData = this.presenceMap.get(userId);
       if (presenceData) {
+        this.changeListeners.forEach((listener) => {
+          try {
+            listener(presenceData);
+          } catch (error) {
+            logger.error('Error in presence change listener:', error);
+          }
+        });
+      }
+      const userWatchers = this.watchers.get(userId);
+      if (presenceData && userWatchers) {
         const message = {
-          type: 'presence_update',
+          type: WebSocketMessageType.PRESENCE_UPDATE,
           payload: presenceData,
           timestamp: new Date().toISOString(),
         };
 
-        this.connections.forEach((clients) => {
-          clients.forEach((client) => {
-            if (client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify(message));
-            }
-          });
-        });
+        const encoded = new EncodedMessage(message);
+        userWatchers.forEach((client) => sendMessage(client, message, encoded));
       }
     } catch (error) {
       logger.error('Error broadcasting presence update:', error);
@@ -189,16 +750,61 @@ export class PresenceService {
     return Array.from(this.presenceMap.values());
   }
 
+  /**
+   * Cierre ordenado del nodo.
+   * - Suelta todas las conexiones locales y marca `offline` a sus usuarios
+   *   (los que siguen conectados en otro nodo solo pierden los dispositivos de este).
+   * - Espera las escrituras pendientes y libera los recursos.
+   */
+  public async shutdown(): Promise<void> {
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = null;
+    }
+
+    const userIds = Array.from(this.connections.keys());
+    this.connections.clear();
+    this.heldSessions.forEach((session) => clearTimeout(session.timer));
+    this.heldSessions.clear();
+
+    for (const userId of userIds) {
+      this.cluster?.setLocalConnections(userId, 0);
+      try {
+        if (!this.cluster || this.cluster.getRemoteConnectionCount(userId) === 0) {
+          await this.setOffline(userId, { reason: 'shutdown' });
+        } else {
+          await this.refreshUserPresence(userId, { reason: 'shutdown' });
+        }
+      } catch (error) {
+        logger.error(`Error releasing presence of ${userId} on shutdown:`, error);
+        metricsService.incrementErrors('shutdown_presence', 'medium', 'server');
+      }
+    }
+
+    await this.flush();
+    logger.info(`Presence released for ${userIds.length} users`);
+    this.cleanup();
+  }
+
   /**
    * Limpia recursos al cerrar el servicio.
-   * - Detiene la escucha de Firebase.
+   * - Detiene la escucha del almacenamiento.
    * - Limpia mapas locales de presencia y conexiones.
    */
   public cleanup(): void {
-    if (this.unsubscribeFirebase) {
-      this.unsubscribeFirebase();
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = null;
+    }
+    this.heldSessions.forEach((session) => clearTimeout(session.timer));
+    this.heldSessions.clear();
+    if (this.unsubscribeStore) {
+      this.unsubscribeStore();
     }
+    this.userWatches.forEach((unsubscribe) => unsubscribe());
+    this.userWatches.clear();
     this.presenceMap.clear();
     this.connections.clear();
+    this.watchers.clear();
   }
 }
@@ -0,0 +1,25 @@
+import { config } from '../../config/environment';
+import { FirebaseService } from '../../services/firebase-service';
+import logger from '../../services/logger';
+import { BufferedPresenceStore } from './buffered-presence-store';
+import { MemoryPresenceStore } from './memory-presence-store';
+import { PresenceStore } from './presence-store';
+
+export type PresenceStoreType = 'firestore' | 'memory';
+
+/**
+ * Crea el almacenamiento de presencia configurado en `PRESENCE_STORE`.
+ * Firebase solo se inicializa cuando se selecciona el adaptador de Firestore.
+ * Con `PRESENCE_WRITE_WINDOW` mayor que 0, las escrituras pasan por un buffer que las agrupa en lotes.
+ */
+export function createPresenceStore(type: PresenceStoreType = config.presence.store): PresenceStore {
+  logger.info(`Using ${type} presence store`);
+  const store = type === 'memory' ? new MemoryPresenceStore() : new FirebaseService();
+  const { writeBuffer } = config.presence;
+  if (writeBuffer.window <= 0) {
+    return store;
+  }
+
+  logger.info(`Buffering presence writes (${writeBuffer.window}ms window, ${writeBuffer.batchSize} users per batch)`);
+  return new BufferedPresenceStore(store, writeBuffer);
+}
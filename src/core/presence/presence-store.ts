@@ -0,0 +1,55 @@
+import { PresenceData } from '../../types/websocket';
+
+/**
+ * Contrato de almacenamiento de presencia.
+ * Permite cambiar el backend (Firestore, memoria, ...) sin modificar `PresenceService`.
+ */
+export interface PresenceStore {
+  /**
+   * Guarda (con merge) los datos de presencia de un usuario.
+   */
+  updatePresence(presenceData: PresenceData): Promise<void>;
+
+  /**
+   * Guarda (con merge) la presencia de varios usuarios en una sola escritura, si el backend lo admite.
+   */
+  updatePresenceBatch?(items: PresenceData[]): Promise<void>;
+
+  /**
+   * Recupera los datos de presencia de un usuario, o null si no existen.
+   */
+  getPresence(userId: string): Promise<PresenceData | null>;
+
+  /**
+   * Escucha los cambios de presencia del almacenamiento.
+   * @returns Una función para cancelar la suscripción
+   */
+  watchPresenceChanges(callback: (presenceData: PresenceData) => void): Promise<() => void>;
+
+  /**
+   * Escucha los cambios de presencia de un único usuario.
+   * @returns Una función para cancelar la suscripción
+   */
+  watchUserPresence(userId: string, callback: (presenceData: PresenceData) => void): () => void;
+
+  /**
+   * Marca como offline las entradas que quedaron online (por ejemplo, tras un reinicio).
+   * Las escrituras llevan `nodeId` como origen y una versión nueva, como cualquier otra escritura.
+   * @param nodeId Nodo que hace la limpieza
+   * @param ownOnly Limitarla a las entradas que escribió ese nodo (con clúster, las demás son de nodos vivos)
+   */
+  cleanupOfflinePresence(nodeId: string, ownOnly: boolean): Promise<void>;
+
+  /**
+   * Espera a que se escriban los cambios retenidos, en los almacenamientos que difieren las escrituras.
+   */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Versión de la siguiente escritura: el reloj en milisegundos, o la anterior más uno si el reloj
+ * no avanzó (así las versiones de todos los nodos son comparables y siempre crecientes).
+ */
+export function nextPresenceVersion(previous?: PresenceData | null): number {
+  return Math.max(Date.now(), (previous?.version || 0) + 1);
+}
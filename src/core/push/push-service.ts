@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { ClientType, WebSocketMessage, WebSocketMessageType } from '../../types/websocket';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { WebSocketServer } from '../websocket/websocket-service';
+
+// Destinatarios de una notificación: un usuario, una lista de usuarios o un tipo de cliente
+export type PushTarget =
+  | { userId: string }
+  | { userIds: string[] }
+  | { clientType: ClientType };
+
+export interface PushOptions {
+  event?: string; // Nombre de la notificación (p. ej. `new_order`)
+  queueIfOffline?: boolean; // Encola para los usuarios desconectados (no aplica a `clientType`)
+}
+
+// Resultado de una notificación
+export interface PushResult {
+  pushId: string;
+  delivered: number; // Sockets de este nodo que la recibieron
+  relayed: number; // Usuarios con conexiones en otros nodos a los que se reenvió (con `clientType`, nodos)
+  queued: number; // Usuarios desconectados para los que se encoló
+}
+
+/**
+ * Publica notificaciones de los servicios del backend en los sockets abiertos.
+ * - Los destinatarios reciben un mensaje `push` con `pushId`, `event` y `data`.
+ * - Con `queueIfOffline`, los usuarios sin conexiones la reciben en su próxima conexión.
+ */
+export class PushService {
+  constructor(private readonly wsServer: WebSocketServer) {}
+
+  public async push(target: PushTarget, data: Record<string, any>, options: PushOptions = {}): Promise<PushResult> {
+    const pushId = randomUUID();
+    const message: WebSocketMessage = {
+      type: WebSocketMessageType.PUSH,
+      timestamp: new Date().toISOString(),
+      payload: { pushId, event: options.event, data }
+    };
+    const result: PushResult = { pushId, delivered: 0, relayed: 0, queued: 0 };
+
+    if ('clientType' in target) {
+      const delivery = this.wsServer.sendToClientType(target.clientType, message);
+      result.delivered = delivery.delivered;
+      result.relayed = delivery.relayed;
+    } else {
+      const userIds = 'userId' in target ? [target.userId] : Array.from(new Set(target.userIds));
+      for (const userId of userIds) {
+        const delivery = await this.wsServer.sendToUser(userId, message, options.queueIfOffline ?? false);
+        result.delivered += delivery.delivered;
+        result.relayed += delivery.relayed ? 1 : 0;
+        result.queued += delivery.queued ? 1 : 0;
+      }
+    }
+
+    metricsService.incrementMessages('push', 'outbound', 'success');
+    logger.debug(`Push ${pushId} delivered to ${result.delivered} sockets`, { relayed: result.relayed, queued: result.queued });
+    return result;
+  }
+}
@@ -0,0 +1,257 @@
+import {
+  PresenceData,
+  UserPresenceStatus,
+  WebSocketClient,
+  WebSocketMessage,
+  WebSocketMessageType,
+} from '../../types/websocket';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { sendMessage } from '../websocket/message-sender';
+import { EncodedMessage } from '../websocket/codec';
+import { PresenceService } from '../presence/presence-service';
+
+// Miembro de una sala tal como lo ven los clientes
+export interface RoomMember {
+  userId: string;
+  status: UserPresenceStatus; // Estado de presencia del usuario
+  metadata?: Record<string, any>; // Metadatos del usuario en esta sala (p. ej. posición del cursor)
+  joinedAt: string;
+}
+
+// Estado interno de un usuario dentro de una sala
+interface RoomMembership {
+  sockets: Set<WebSocketClient>; // Sockets del usuario unidos a la sala
+  status: UserPresenceStatus; // Último estado notificado a la sala
+  metadata?: Record<string, any>;
+  joinedAt: string;
+}
+
+/**
+ * Salas de presencia (chats, documentos, ...).
+ * - Los sockets se unen y salen de salas por nombre; un usuario es miembro mientras tenga algún socket en la sala.
+ * - Notifica `member_joined`, `member_left` y `member_updated` solo a los sockets de la sala.
+ * - Cada miembro tiene metadatos propios por sala y su estado se actualiza con los cambios de presencia.
+ * - Las salas son locales a este nodo.
+ * - Una sesión retenida tras un corte sigue en sus salas: al reanudarse pasan al nuevo socket y, si el
+ *   periodo de gracia termina sin reanudarse, sale de ellas con `member_left`.
+ */
+export class RoomService {
+  private readonly rooms: Map<string, Map<string, RoomMembership>> = new Map(); // Sala -> usuario -> membresía
+  private readonly userRooms: Map<string, Set<string>> = new Map(); // Índice inverso: usuario -> salas
+
+  constructor(private readonly presenceService: PresenceService) {
+    this.presenceService.onPresenceChange((presenceData) => this.handlePresenceChange(presenceData));
+    this.presenceService.onSessionResumed((previous, client) => this.transfer(previous, client));
+    this.presenceService.onSessionExpired((client) => this.leaveAll(client));
+  }
+
+  /**
+   * Une un socket a una sala.
+   * - Si es el primer socket del usuario en la sala, avisa al resto con `member_joined`.
+   * - Los metadatos, si se envían, sustituyen a los anteriores del usuario en la sala.
+   *
+   * @returns La lista actual de miembros de la sala
+   */
+  public join(client: WebSocketClient, roomId: string, metadata?: Record<string, any>): RoomMember[] {
+    const userId = client.userId;
+    if (!userId) {
+      return [];
+    }
+
+    if (!this.rooms.has(roomId)) {
+      this.rooms.set(roomId, new Map());
+    }
+    const room = this.rooms.get(roomId)!;
+
+    let membership = room.get(userId);
+    const isNewMember = !membership;
+    if (!membership) {
+      membership = {
+        sockets: new Set(),
+        status: this.getStatus(userId),
+        joinedAt: new Date().toISOString(),
+      };
+      room.set(userId, membership);
+      this.indexUserRoom(userId, roomId);
+    }
+
+    membership.sockets.add(client);
+    if (metadata) {
+      membership.metadata = { ...metadata };
+    }
+    if (!client.rooms) {
+      client.rooms = new Set();
+    }
+    client.rooms.add(roomId);
+
+    if (isNewMember) {
+      this.broadcast(roomId, WebSocketMessageType.MEMBER_JOINED, { roomId, member: this.toMember(userId, membership) }, userId);
+      metricsService.incrementMessages('room_join', 'inbound', 'success');
+      logger.debug(`User ${userId} joined room ${roomId}`);
+    } else if (metadata) {
+      this.broadcast(roomId, WebSocketMessageType.MEMBER_UPDATED, { roomId, member: this.toMember(userId, membership) }, userId);
+    }
+
+    return this.getMembers(roomId);
+  }
+
+  /**
+   * Saca a un socket de una sala; si era el último socket del usuario, avisa con `member_left`.
+   */
+  public leave(client: WebSocketClient, roomId: string): void {
+    client.rooms?.delete(roomId);
+    const userId = client.userId;
+    const room = this.rooms.get(roomId);
+    const membership = userId ? room?.get(userId) : undefined;
+    if (!userId || !room || !membership) {
+      return;
+    }
+
+    membership.sockets.delete(client);
+    if (membership.sockets.size > 0) {
+      return;
+    }
+
+    room.delete(userId);
+    this.unindexUserRoom(userId, roomId);
+    if (room.size === 0) {
+      this.rooms.delete(roomId);
+    } else {
+      this.broadcast(roomId, WebSocketMessageType.MEMBER_LEFT, { roomId, userId });
+    }
+    logger.debug(`User ${userId} left room ${roomId}`);
+  }
+
+  /**
+   * Saca a un socket de todas sus salas (por ejemplo, al cerrarse).
+   */
+  public leaveAll(client: WebSocketClient): void {
+    if (client.rooms) {
+      Array.from(client.rooms).forEach((roomId) => this.leave(client, roomId));
+    }
+  }
+
+  /**
+   * Actualiza los metadatos del usuario en una sala y avisa al resto con `member_updated`.
+   *
+   * @returns false si el socket no está en la sala
+   */
+  public setMetadata(client: WebSocketClient, roomId: string, metadata: Record<string, any>): boolean {
+    const userId = client.userId;
+    const membership = userId ? this.rooms.get(roomId)?.get(userId) : undefined;
+    if (!userId || !membership || !membership.sockets.has(client)) {
+      return false;
+    }
+
+    membership.metadata = { ...metadata };
+    this.broadcast(roomId, WebSocketMessageType.MEMBER_UPDATED, { roomId, member: this.toMember(userId, membership) }, userId);
+    return true;
+  }
+
+  /**
+   * Indica si el socket está unido a la sala.
+   */
+  public isMember(client: WebSocketClient, roomId: string): boolean {
+    return client.userId ? this.rooms.get(roomId)?.get(client.userId)?.sockets.has(client) === true : false;
+  }
+
+  /**
+   * Envía un mensaje a todos los sockets de la sala, salvo a los del usuario excluido.
+   */
+  public sendToRoom(roomId: string, message: WebSocketMessage, excludeUserId?: string): void {
+    const encoded = new EncodedMessage(message);
+    this.rooms.get(roomId)?.forEach((membership, userId) => {
+      if (userId !== excludeUserId) {
+        membership.sockets.forEach((client) => sendMessage(client, message, encoded));
+      }
+    });
+  }
+
+  /**
+   * Miembros actuales de una sala.
+   */
+  public getMembers(roomId: string): RoomMember[] {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return [];
+    }
+    return Array.from(room.entries()).map(([userId, membership]) => this.toMember(userId, membership));
+  }
+
+  /**
+   * Número de salas con miembros en este nodo.
+   */
+  public getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  // Pasa las salas de un socket a otro del mismo usuario sin avisar a los miembros
+  private transfer(previous: WebSocketClient, client: WebSocketClient): void {
+    previous.rooms?.forEach((roomId) => {
+      const membership = client.userId ? this.rooms.get(roomId)?.get(client.userId) : undefined;
+      if (membership?.sockets.delete(previous)) {
+        membership.sockets.add(client);
+        if (!client.rooms) {
+          client.rooms = new Set();
+        }
+        client.rooms.add(roomId);
+      }
+    });
+    previous.rooms?.clear();
+  }
+
+  // Propaga los cambios de estado de un usuario a las salas en las que está
+  private handlePresenceChange(presenceData: PresenceData): void {
+    const roomIds = this.userRooms.get(presenceData.userId);
+    if (!roomIds) {
+      return;
+    }
+
+    roomIds.forEach((roomId) => {
+      const membership = this.rooms.get(roomId)?.get(presenceData.userId);
+      if (membership && membership.status !== presenceData.status) {
+        membership.status = presenceData.status;
+        this.broadcast(roomId, WebSocketMessageType.MEMBER_UPDATED, {
+          roomId,
+          member: this.toMember(presenceData.userId, membership),
+        }, presenceData.userId);
+      }
+    });
+  }
+
+  // Envía un evento de miembros a la sala, salvo al usuario que lo provocó
+  private broadcast(roomId: string, type: WebSocketMessageType, payload: any, excludeUserId?: string): void {
+    this.sendToRoom(roomId, { type, payload, timestamp: new Date().toISOString() }, excludeUserId);
+  }
+
+  private toMember(userId: string, membership: RoomMembership): RoomMember {
+    return {
+      userId,
+      status: membership.status,
+      metadata: membership.metadata,
+      joinedAt: membership.joinedAt,
+    };
+  }
+
+  private getStatus(userId: string): UserPresenceStatus {
+    return this.presenceService.getPresence(userId)?.status || UserPresenceStatus.ONLINE;
+  }
+
+  private indexUserRoom(userId: string, roomId: string): void {
+    if (!this.userRooms.has(userId)) {
+      this.userRooms.set(userId, new Set());
+    }
+    this.userRooms.get(userId)?.add(roomId);
+  }
+
+  private unindexUserRoom(userId: string, roomId: string): void {
+    const roomIds = this.userRooms.get(userId);
+    if (roomIds) {
+      roomIds.delete(roomId);
+      if (roomIds.size === 0) {
+        this.userRooms.delete(userId);
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import logger from '../../services/logger';
+
+// Señales de escritura con estado (el resto de señales solo se reenvían)
+export const TYPING_START = 'typing_start';
+export const TYPING_STOP = 'typing_stop';
+
+// Destino de una señal: una lista de usuarios o una sala (clave de conversación)
+export interface SignalTarget {
+  userIds?: string[];
+  roomId?: string;
+}
+
+// Señal efímera enviada por un cliente
+export interface Signal {
+  name: string; // `typing_start`, `typing_stop` o una señal definida por la aplicación
+  from: string; // Usuario emisor
+  deviceId?: string; // Dispositivo emisor
+  target: SignalTarget;
+  data?: Record<string, any>; // Datos opcionales de la aplicación
+  expired?: boolean; // true si el servidor genera `typing_stop` al expirar la escritura
+}
+
+/**
+ * Señales efímeras entre clientes (indicadores de escritura y señales de la aplicación).
+ * - Las señales no se guardan en ningún almacenamiento: solo se reenvían mediante `relay`.
+ * - Un `typing_start` sin `typing_stop` expira tras `typingTimeout` y se envía un `typing_stop` con `expired: true`.
+ */
+export class SignalService {
+  private readonly typing: Map<string, { signal: Signal; timer: NodeJS.Timeout }> = new Map(); // Escrituras activas
+
+  constructor(private readonly relay: (signal: Signal) => void, private readonly typingTimeout: number) {}
+
+  /**
+   * Reenvía una señal y actualiza el estado de escritura del emisor.
+   */
+  public send(signal: Signal): void {
+    const key = this.getTypingKey(signal);
+    if (signal.name === TYPING_START) {
+      this.clearTyping(key);
+      const timer = setTimeout(() => this.expireTyping(key), this.typingTimeout);
+      this.typing.set(key, { signal, timer });
+    } else if (signal.name === TYPING_STOP) {
+      this.clearTyping(key);
+    }
+
+    this.relay(signal);
+  }
+
+  /**
+   * Termina las escrituras activas de un dispositivo (por ejemplo, al cerrarse su socket).
+   */
+  public clearDevice(userId: string, deviceId?: string): void {
+    this.typing.forEach(({ signal }, key) => {
+      if (signal.from === userId && signal.deviceId === deviceId) {
+        this.expireTyping(key);
+      }
+    });
+  }
+
+  /**
+   * Detiene todos los temporizadores.
+   */
+  public stop(): void {
+    this.typing.forEach(({ timer }) => clearTimeout(timer));
+    this.typing.clear();
+  }
+
+  // Envía `typing_stop` en nombre del emisor cuando su escritura expira
+  private expireTyping(key: string): void {
+    const entry = this.typing.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.clearTyping(key);
+    logger.debug(`Typing of ${entry.signal.from} expired`);
+    this.relay({ ...entry.signal, name: TYPING_STOP, data: undefined, expired: true });
+  }
+
+  private clearTyping(key: string): void {
+    const entry = this.typing.get(key);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.typing.delete(key);
+    }
+  }
+
+  // Identifica la escritura por emisor, dispositivo y destino
+  private getTypingKey(signal: Signal): string {
+    const target = signal.target.roomId
+      ? `room:${signal.target.roomId}`
+      : `users:${[...(signal.target.userIds || [])].sort().join(',')}`;
+    return `${signal.from}:${signal.deviceId || ''}:${target}`;
+  }
+}
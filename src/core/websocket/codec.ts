@@ -0,0 +1,64 @@
+import { decode, encode } from '@msgpack/msgpack';
+import { WebSocketMessage, WireEncoding } from '../../types/websocket';
+
+/**
+ * Codificación de los mensajes en el socket.
+ * Se negocia con el subprotocolo `presence.<encoding>.v1` (p. ej. `presence.msgpack.v1`).
+ */
+export interface MessageCodec {
+  encoding: WireEncoding;
+  name: string; // Nombre legible para los mensajes de error
+  protocol: string; // Subprotocolo que la selecciona
+  invalidCode: string; // Código de error cuando un mensaje entrante no se puede decodificar
+  encode(message: WebSocketMessage): string | Uint8Array;
+  decode(data: Buffer): unknown;
+}
+
+const jsonCodec: MessageCodec = {
+  encoding: 'json',
+  name: 'JSON',
+  protocol: 'presence.json.v1',
+  invalidCode: 'INVALID_JSON',
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(data.toString()),
+};
+
+const msgpackCodec: MessageCodec = {
+  encoding: 'msgpack',
+  name: 'MessagePack',
+  protocol: 'presence.msgpack.v1',
+  invalidCode: 'INVALID_MSGPACK',
+  encode: (message) => encode(message, { ignoreUndefined: true }), // Igual que JSON: omite los campos undefined
+  decode: (data) => decode(data),
+};
+
+export const CODECS: Record<WireEncoding, MessageCodec> = {
+  json: jsonCodec,
+  msgpack: msgpackCodec,
+};
+
+/**
+ * Devuelve el códec del subprotocolo acordado; sin subprotocolo (o con uno desconocido) se usa JSON.
+ */
+export function getCodecForProtocol(protocol: string): MessageCodec {
+  return Object.values(CODECS).find((codec) => codec.protocol === protocol) || jsonCodec;
+}
+
+/**
+ * Mensaje saliente que se codifica como mucho una vez por codificación,
+ * aunque se envíe a muchos sockets.
+ */
+export class EncodedMessage {
+  private readonly encoded: Map<WireEncoding, string | Uint8Array> = new Map();
+
+  constructor(public readonly message: WebSocketMessage) {}
+
+  public get(codec: MessageCodec): string | Uint8Array {
+    let data = this.encoded.get(codec.encoding);
+    if (data === undefined) {
+      data = codec.encode(this.message);
+      this.encoded.set(codec.encoding, data);
+    }
+    return data;
+  }
+}
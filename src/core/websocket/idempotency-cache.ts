@@ -0,0 +1,69 @@
+// Entrada de la caché: la operación (en curso o terminada) y su expiración
+interface IdempotencyEntry<T> {
+  expiresAt: number;
+  result: Promise<T>;
+}
+
+/**
+ * Caché de idempotencia para peticiones reintentadas por el cliente.
+ * - Una clave repetida dentro de la ventana devuelve el resultado de la primera ejecución,
+ *   o espera a que termine si sigue en curso.
+ * - Las operaciones que fallan (o cuyo resultado se descarta con `shouldCache`) no se guardan,
+ *   para que el reintento vuelva a ejecutarse.
+ */
+export class IdempotencyCache<T> {
+  private readonly entries: Map<string, IdempotencyEntry<T>> = new Map();
+
+  constructor(private readonly windowMs: number, private readonly maxEntries: number = 10000) {}
+
+  /**
+   * Ejecuta la operación una sola vez por clave dentro de la ventana.
+   *
+   * @param shouldCache Decide si el resultado se conserva para los reintentos
+   * @returns El resultado y si proviene de una ejecución anterior
+   */
+  public async execute(
+    key: string,
+    operation: () => Promise<T>,
+    shouldCache: (result: T) => boolean = () => true
+  ): Promise<{ result: T; replayed: boolean }> {
+    this.prune();
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      return { result: await existing.result, replayed: true };
+    }
+
+    const result = operation();
+    this.entries.set(key, { expiresAt: Date.now() + this.windowMs, result });
+
+    try {
+      const value = await result;
+      if (!shouldCache(value)) {
+        this.entries.delete(key);
+      }
+      return { result: value, replayed: false };
+    } catch (error) {
+      this.entries.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Elimina las entradas expiradas y, si hace falta, las más antiguas hasta respetar el máximo.
+   * Las entradas se insertan en orden de expiración, así que basta con recorrer desde el principio.
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now && this.entries.size < this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+}
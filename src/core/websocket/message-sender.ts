@@ -0,0 +1,131 @@
+import WebSocket from 'ws';
+import { SlowConsumerPolicy, WebSocketClient, WebSocketMessage, WebSocketMessageType } from '../../types/websocket';
+import logger from '../../services/logger';
+import { metricsService } from '../../services/metrics-service';
+import { CODECS, EncodedMessage } from './codec';
+
+// Política de contrapresión para los sockets que no leen al ritmo del servidor
+export interface BackpressureOptions {
+  highWaterMark: number; // Bytes pendientes a partir de los que se agrupan las actualizaciones de presencia
+  maxBufferedAmount: number; // Bytes pendientes a partir de los que se aplica `slowConsumerPolicy`
+  slowConsumerPolicy: SlowConsumerPolicy; // Qué hacer con el resto de mensajes cuando se supera el máximo
+}
+
+// Cada cuánto se comprueba si un socket con actualizaciones agrupadas ya vació su buffer
+const DRAIN_CHECK_INTERVAL = 50;
+
+let backpressure: BackpressureOptions = {
+  highWaterMark: 1024 * 1024,
+  maxBufferedAmount: 4 * 1024 * 1024,
+  slowConsumerPolicy: 'close',
+};
+
+/**
+ * Ajusta la política de contrapresión de todos los envíos.
+ */
+export function configureBackpressure(options: Partial<BackpressureOptions>): void {
+  backpressure = { ...backpressure, ...options };
+}
+
+/**
+ * Envía un mensaje a un cliente WebSocket si la conexión está abierta.
+ * Es el punto de salida común para el servidor WebSocket y el servicio de presencia.
+ * - Si el socket acumula más de `highWaterMark` bytes sin enviar, las actualizaciones de presencia
+ *   se agrupan (solo se conserva la última de cada usuario) hasta que el buffer se vacíe.
+ * - Si supera `maxBufferedAmount`, el resto de mensajes se descartan o se cierra el socket.
+ * - El mensaje se codifica con el códec negociado por el socket (JSON por defecto).
+ *
+ * @param encoded Mensaje compartido entre varios envíos, para codificarlo una sola vez por codificación
+ * @returns true si el mensaje se entregó al socket (o quedó agrupado para entregarse)
+ */
+export function sendMessage(ws: WebSocketClient, message: WebSocketMessage, encoded?: EncodedMessage): boolean {
+  if (ws.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+
+  const key = getCoalesceKey(message);
+  if (key && (ws.pendingUpdates || ws.bufferedAmount > backpressure.highWaterMark)) {
+    queueUpdate(ws, key, message);
+    return true;
+  }
+
+  if (ws.bufferedAmount > backpressure.maxBufferedAmount) {
+    handleSlowConsumer(ws, message);
+    return false;
+  }
+
+  return write(ws, encoded ?? new EncodedMessage(message));
+}
+
+function write(ws: WebSocketClient, encoded: EncodedMessage): boolean {
+  try {
+    const codec = CODECS[ws.encoding || 'json'];
+    const data = encoded.get(codec);
+    ws.send(data); // Enviar el mensaje al cliente (texto en JSON, binario en MessagePack)
+    metricsService.incrementMessages(encoded.message.type, 'outbound', 'success');
+    const size = typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+    metricsService.observeMessageSize(codec.encoding, 'outbound', size);
+    metricsService.addPayloadBytes('outbound', ws.compression || 'none', size);
+    return true;
+  } catch (error) {
+    // Manejo de errores al enviar el mensaje
+    metricsService.incrementErrors('send_message', 'medium', 'server');
+    logger.error('Send message error:', error);
+    return false;
+  }
+}
+
+// Clave de agrupación: los mensajes con la misma clave se reemplazan por el más reciente
+function getCoalesceKey(message: WebSocketMessage): string | null {
+  switch (message.type) {
+    case WebSocketMessageType.PRESENCE_UPDATE:
+      return `presence:${message.payload?.userId}`;
+    case WebSocketMessageType.MEMBER_UPDATED:
+      return `member:${message.payload?.roomId}:${message.payload?.member?.userId}`;
+    default:
+      return null;
+  }
+}
+
+// Guarda la actualización hasta que el socket vacíe su buffer
+function queueUpdate(ws: WebSocketClient, key: string, message: WebSocketMessage): void {
+  if (!ws.pendingUpdates) {
+    ws.pendingUpdates = new Map();
+    ws.drainTimer = setInterval(() => drainUpdates(ws), DRAIN_CHECK_INTERVAL);
+    metricsService.changeSlowConsumers(1);
+  }
+
+  if (ws.pendingUpdates.delete(key)) {
+    metricsService.incrementBackpressure('coalesced', message.type);
+  }
+  ws.pendingUpdates.set(key, message);
+}
+
+// Envía las actualizaciones agrupadas cuando el buffer baja del umbral (o las descarta si el socket se cerró)
+function drainUpdates(ws: WebSocketClient): void {
+  if (ws.readyState === WebSocket.OPEN && ws.bufferedAmount > backpressure.highWaterMark) {
+    return;
+  }
+
+  const pending = ws.pendingUpdates;
+  clearInterval(ws.drainTimer);
+  ws.pendingUpdates = undefined;
+  ws.drainTimer = undefined;
+  metricsService.changeSlowConsumers(-1);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    pending?.forEach((message) => write(ws, new EncodedMessage(message)));
+  }
+}
+
+// Aplica la política configurada a un socket que superó el máximo de bytes pendientes
+function handleSlowConsumer(ws: WebSocketClient, message: WebSocketMessage): void {
+  if (backpressure.slowConsumerPolicy === 'drop') {
+    metricsService.incrementBackpressure('dropped', message.type);
+    return;
+  }
+
+  metricsService.incrementBackpressure('closed', message.type);
+  logger.warn('Terminating slow consumer', { userId: ws.userId, bufferedAmount: ws.bufferedAmount });
+  ws.terminate(); // El buffer está lleno: no se puede completar el cierre ordenado
+}
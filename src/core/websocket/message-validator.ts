@@ -0,0 +1,184 @@
+import { UserPresenceStatus, WebSocketMessage, WebSocketMessageType } from '../../types/websocket';
+import { MessageCodec } from './codec';
+
+// Versiones del protocolo que entiende el servidor (la última es la preferida)
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+export const LATEST_PROTOCOL_VERSION = Math.max(...SUPPORTED_PROTOCOL_VERSIONS);
+
+// Longitud máxima del ID de petición enviado por el cliente
+const MAX_REQUEST_ID_LENGTH = 128;
+
+// Longitud máxima del nombre de una sala
+const MAX_ROOM_ID_LENGTH = 128;
+
+// Límites de las señales efímeras
+const MAX_SIGNAL_RECIPIENTS = 100;
+const SIGNAL_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+
+// Estados que un cliente puede fijar explícitamente (`offline` lo decide el servidor)
+const CLIENT_STATUSES: string[] = [UserPresenceStatus.ONLINE, UserPresenceStatus.AWAY, UserPresenceStatus.BUSY];
+
+export type ValidationResult =
+  | { valid: true; message: WebSocketMessage }
+  | { valid: false; code: string; error: string; requestId?: string };
+
+// Validador del payload de un tipo de mensaje: devuelve el error o null si es válido
+type PayloadValidator = (payload: any) => string | null;
+
+// Tipos de mensaje que puede enviar un cliente y la validación de su payload
+const PAYLOAD_VALIDATORS: Partial<Record<WebSocketMessageType, PayloadValidator>> = {
+  [WebSocketMessageType.HEARTBEAT]: () => null,
+  [WebSocketMessageType.DISCONNECT]: () => null,
+  [WebSocketMessageType.ACTIVITY]: () => null,
+  [WebSocketMessageType.PRESENCE_UPDATE]: (payload) => {
+    if (!isPlainObject(payload)) {
+      return 'payload must be an object';
+    }
+    if (!CLIENT_STATUSES.includes(payload.status)) {
+      return `payload.status must be one of: ${CLIENT_STATUSES.join(', ')}`;
+    }
+    if (payload.metadata !== undefined && !isPlainObject(payload.metadata)) {
+      return 'payload.metadata must be an object';
+    }
+    return null;
+  },
+  [WebSocketMessageType.SUBSCRIBE]: validateUserIds,
+  [WebSocketMessageType.UNSUBSCRIBE]: validateUserIds,
+  [WebSocketMessageType.JOIN]: (payload) => validateRoom(payload, false),
+  [WebSocketMessageType.LEAVE]: (payload) => validateRoom(payload, false),
+  [WebSocketMessageType.ROOM_METADATA]: (payload) => validateRoom(payload, true),
+  [WebSocketMessageType.SIGNAL]: validateSignal,
+  [WebSocketMessageType.DIRECT_MESSAGE]: (payload) => {
+    if (!isPlainObject(payload) || typeof payload.to !== 'string' || payload.to.length === 0) {
+      return 'payload.to must be a non-empty string';
+    }
+    if (!isPlainObject(payload.data)) {
+      return 'payload.data must be an object';
+    }
+    return null;
+  },
+  [WebSocketMessageType.AUTH]: (payload) =>
+    isPlainObject(payload) && typeof payload.token === 'string' && payload.token.length > 0
+      ? null
+      : 'payload.token must be a non-empty string',
+};
+
+/**
+ * Decodifica y valida un mensaje entrante con el códec negociado por el socket.
+ * - Comprueba que se pueda decodificar, que el tipo lo pueda enviar un cliente y que el payload tenga la forma esperada.
+ * - Si el mensaje trae `id`, se devuelve en el error para que el cliente pueda correlacionarlo.
+ */
+export function decodeMessage(data: Buffer, codec: MessageCodec): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = codec.decode(data);
+  } catch {
+    return { valid: false, code: codec.invalidCode, error: `Message is not valid ${codec.name}` };
+  }
+
+  if (!isPlainObject(parsed)) {
+    return { valid: false, code: 'INVALID_MESSAGE', error: 'Message must be an object' };
+  }
+
+  const candidate = parsed as Record<string, any>;
+  const requestId = typeof candidate.id === 'string' ? candidate.id : undefined;
+
+  if (candidate.id !== undefined && (typeof candidate.id !== 'string' || candidate.id.length > MAX_REQUEST_ID_LENGTH)) {
+    return { valid: false, code: 'INVALID_MESSAGE', error: `id must be a string of at most ${MAX_REQUEST_ID_LENGTH} characters` };
+  }
+
+  if (typeof candidate.type !== 'string') {
+    return { valid: false, code: 'INVALID_MESSAGE', error: 'type is required', requestId };
+  }
+
+  if (candidate.timestamp !== undefined && typeof candidate.timestamp !== 'string') {
+    return { valid: false, code: 'INVALID_MESSAGE', error: 'timestamp must be a string', requestId };
+  }
+
+  const validatePayload = PAYLOAD_VALIDATORS[candidate.type as WebSocketMessageType];
+  if (!validatePayload) {
+    return { valid: false, code: 'UNSUPPORTED_TYPE', error: `Unsupported message type: ${candidate.type}`, requestId };
+  }
+
+  const payloadError = validatePayload(candidate.payload);
+  if (payloadError) {
+    return { valid: false, code: 'INVALID_PAYLOAD', error: payloadError, requestId };
+  }
+
+  return { valid: true, message: candidate as WebSocketMessage };
+}
+
+/**
+ * Negocia la versión del protocolo a partir de la versión máxima que soporta el cliente.
+ *
+ * @param requested Valor del parámetro `protocolVersion` (null si el cliente no lo envía)
+ * @returns La versión acordada, o null si no hay ninguna compatible
+ */
+export function negotiateProtocolVersion(requested: string | null): number | null {
+  if (requested === null) {
+    return LATEST_PROTOCOL_VERSION;
+  }
+
+  const clientMax = Number(requested);
+  if (!Number.isInteger(clientMax)) {
+    return null;
+  }
+
+  const compatible = SUPPORTED_PROTOCOL_VERSIONS.filter((version) => version <= clientMax);
+  return compatible.length > 0 ? Math.max(...compatible) : null;
+}
+
+function validateUserIds(payload: any): string | null {
+  if (!isPlainObject(payload) || !Array.isArray(payload.userIds)) {
+    return 'payload.userIds must be an array of strings';
+  }
+  if (!payload.userIds.every((userId: unknown) => typeof userId === 'string' && userId.length > 0)) {
+    return 'payload.userIds must contain only non-empty strings';
+  }
+  return null;
+}
+
+function validateRoom(payload: any, metadataRequired: boolean): string | null {
+  if (!isPlainObject(payload) || typeof payload.roomId !== 'string' || payload.roomId.length === 0) {
+    return 'payload.roomId must be a non-empty string';
+  }
+  if (payload.roomId.length > MAX_ROOM_ID_LENGTH) {
+    return `payload.roomId must be at most ${MAX_ROOM_ID_LENGTH} characters`;
+  }
+  if (metadataRequired ? !isPlainObject(payload.metadata) : payload.metadata !== undefined && !isPlainObject(payload.metadata)) {
+    return 'payload.metadata must be an object';
+  }
+  return null;
+}
+
+function validateSignal(payload: any): string | null {
+  if (!isPlainObject(payload) || typeof payload.signal !== 'string' || !SIGNAL_NAME_PATTERN.test(payload.signal)) {
+    return 'payload.signal must be 1-64 letters, digits or _ . : -';
+  }
+  if ((payload.to === undefined) === (payload.roomId === undefined)) {
+    return 'payload must have either to or roomId';
+  }
+  if (payload.to !== undefined) {
+    const error = validateUserIds({ userIds: payload.to });
+    if (error) {
+      return error.replace('payload.userIds', 'payload.to');
+    }
+    if (payload.to.length > MAX_SIGNAL_RECIPIENTS) {
+      return `payload.to must have at most ${MAX_SIGNAL_RECIPIENTS} recipients`;
+    }
+  }
+  if (payload.roomId !== undefined && (typeof payload.roomId !== 'string' || payload.roomId.length === 0)) {
+    return 'payload.roomId must be a non-empty string';
+  }
+  if (payload.roomId !== undefined && payload.roomId.length > MAX_ROOM_ID_LENGTH) {
+    return `payload.roomId must be at most ${MAX_ROOM_ID_LENGTH} characters`;
+  }
+  if (payload.data !== undefined && !isPlainObject(payload.data)) {
+    return 'payload.data must be an object';
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
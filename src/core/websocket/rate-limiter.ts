@@ -0,0 +1,78 @@
+// Presupuesto de un cubo de tokens
+export interface RateBudget {
+  rate: number; // Tokens que se recuperan por segundo (0 desactiva el límite)
+  burst: number; // Capacidad del cubo: ráfaga máxima permitida
+}
+
+// Estado de un cubo: tokens disponibles y cuándo vuelve a estar lleno
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number;
+}
+
+// Intervalo mínimo entre limpiezas de cubos llenos
+const PRUNE_INTERVAL = 60000;
+
+/**
+ * Limitador de tasa con cubos de tokens por clave (socket, usuario, IP, tipo de mensaje...).
+ * - Cada cubo se rellena de forma continua a `rate` tokens por segundo hasta `burst`.
+ * - Un cubo lleno equivale a uno nuevo, así que se descarta en la limpieza periódica.
+ */
+export class RateLimiter {
+  private readonly buckets: Map<string, TokenBucket> = new Map();
+  private lastPrune = Date.now();
+
+  /**
+   * Consume tokens del cubo de la clave.
+   *
+   * @returns true si había tokens suficientes; false si la petición debe limitarse
+   */
+  public consume(key: string, budget: RateBudget, cost: number = 1): boolean {
+    if (budget.rate <= 0) {
+      return true;
+    }
+
+    const now = Date.now();
+    this.prune(now);
+
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+    const available = bucket ? Math.min(budget.burst, bucket.tokens + elapsed * budget.rate) : budget.burst;
+    if (available < cost) {
+      return false;
+    }
+
+    const tokens = available - cost;
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + ((budget.burst - tokens) / budget.rate) * 1000
+    });
+    return true;
+  }
+
+  /**
+   * Olvida el cubo de una clave (p. ej. al cerrarse el socket).
+   */
+  public delete(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  public get size(): number {
+    return this.buckets.size;
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrune < PRUNE_INTERVAL) {
+      return;
+    }
+
+    this.lastPrune = now;
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
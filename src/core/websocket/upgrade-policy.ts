@@ -0,0 +1,186 @@
+import { BlockList, isIP } from 'net';
+
+// Motivo por el que se rechaza un upgrade; es la etiqueta `reason` de las métricas
+export type UpgradeRejectionReason =
+  | 'shutting_down'
+  | 'forbidden_origin'
+  | 'ip_denied'
+  | 'ip_not_allowed'
+  | 'node_capacity'
+  | 'rate_limited'
+  | 'unsupported_protocol'
+  | 'unauthorized';
+
+// Respuesta HTTP con la que se rechaza un upgrade
+export interface UpgradeRejection {
+  reason: UpgradeRejectionReason;
+  status: number;
+  message: string;
+  headers?: Record<string, string>;
+}
+
+export interface UpgradePolicyOptions {
+  allowedOrigins: string[];  // Orígenes permitidos; admite `*` y subdominios comodín (`https://*.example.com`)
+  ipAllowList: string[];  // IPs o rangos CIDR que pueden conectarse (vacío: cualquiera)
+  ipDenyList: string[];  // IPs o rangos CIDR que nunca pueden conectarse
+  trustedProxies: string[];  // IPs o rangos CIDR de los proxies cuyo `X-Forwarded-For` se acepta
+  maxConnections: number;  // Conexiones simultáneas en el nodo (0: sin límite)
+}
+
+// Datos del upgrade que decide la política
+export interface UpgradeRequest {
+  origin?: string;
+  ip?: string;
+  connections: number;  // Conexiones abiertas en el nodo
+}
+
+// Segundos que se sugieren al cliente antes de reintentar cuando el nodo está lleno
+const NODE_CAPACITY_RETRY_AFTER = 5;
+
+/**
+ * Política de seguridad del upgrade, evaluada antes de autenticar.
+ * - La lista de denegación tiene prioridad sobre la de permitidos.
+ * - Los clientes que no son navegadores no envían `Origin` y no se restringen por origen.
+ * - La IP del cliente es la del socket, salvo que venga de un proxy de confianza (ver `resolveClientAddress`).
+ */
+export class UpgradePolicy {
+  private readonly matchOrigin: (origin: string) => boolean;
+  private readonly allowList: BlockList | null;
+  private readonly denyList: BlockList | null;
+  private readonly trustedProxies: BlockList | null;
+
+  /**
+   * @throws Error Si un origen, una IP o un rango CIDR no es válido
+   */
+  constructor(private readonly options: UpgradePolicyOptions) {
+    this.matchOrigin = createOriginMatcher(options.allowedOrigins);
+    this.allowList = options.ipAllowList.length > 0 ? createAddressList(options.ipAllowList) : null;
+    this.denyList = options.ipDenyList.length > 0 ? createAddressList(options.ipDenyList) : null;
+    this.trustedProxies = options.trustedProxies.length > 0 ? createAddressList(options.trustedProxies) : null;
+  }
+
+  /**
+   * IP del cliente de un upgrade.
+   * - Si el socket viene de un proxy de confianza, se recorre `X-Forwarded-For` de derecha a izquierda
+   *   y se toma la primera dirección que no es de un proxy de confianza.
+   * - En otro caso la cabecera se ignora (cualquier cliente podría falsificarla).
+   *
+   * @param remoteAddress Dirección del socket
+   * @param forwardedFor Cabecera `X-Forwarded-For`, si la hay
+   */
+  public resolveClientAddress(remoteAddress: string | undefined, forwardedFor?: string | string[]): string | undefined {
+    const trustedProxies = this.trustedProxies;
+    if (!remoteAddress || !trustedProxies || !matchesAddress(trustedProxies, normalizeAddress(remoteAddress))) {
+      return remoteAddress;
+    }
+
+    const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || '')
+      .split(',')
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    let address = remoteAddress;
+    for (let i = hops.length - 1; i >= 0; i--) {
+      if (isIP(hops[i]) === 0) {
+        break;
+      }
+      address = hops[i];
+      if (!matchesAddress(trustedProxies, normalizeAddress(address))) {
+        break;
+      }
+    }
+    return address;
+  }
+
+  /**
+   * @returns El rechazo que corresponde al upgrade, o null si se permite
+   */
+  public check(request: UpgradeRequest): UpgradeRejection | null {
+    const address = request.ip ? normalizeAddress(request.ip) : null;
+    if (address && this.denyList && matchesAddress(this.denyList, address)) {
+      return { reason: 'ip_denied', status: 403, message: 'IP address not allowed' };
+    }
+    if (this.allowList && !(address && matchesAddress(this.allowList, address))) {
+      return { reason: 'ip_not_allowed', status: 403, message: 'IP address not allowed' };
+    }
+
+    if (request.origin && !this.matchOrigin(request.origin)) {
+      return { reason: 'forbidden_origin', status: 403, message: 'Origin not allowed' };
+    }
+
+    if (this.options.maxConnections > 0 && request.connections >= this.options.maxConnections) {
+      return {
+        reason: 'node_capacity',
+        status: 503,
+        message: 'Node at connection capacity',
+        headers: { 'Retry-After': String(NODE_CAPACITY_RETRY_AFTER) }
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Crea la comprobación de orígenes: `*` admite cualquiera y `*.` al principio del host admite
+ * cualquier subdominio (no el dominio raíz), p. ej. `https://*.example.com`.
+ * @throws Error Si un patrón no es un origen válido
+ */
+export function createOriginMatcher(patterns: string[]): (origin: string) => boolean {
+  if (patterns.includes('*')) {
+    return () => true;
+  }
+
+  const exact = new Set<string>();
+  const wildcards: RegExp[] = [];
+  for (const pattern of patterns) {
+    const match = /^([a-z][a-z0-9+.-]*:\/\/)(\*\.)?([^*/]+)$/i.exec(pattern);
+    if (!match) {
+      throw new Error(`Invalid allowed origin: ${pattern}`);
+    }
+    const [, scheme, wildcard, host] = match;
+    if (wildcard) {
+      wildcards.push(new RegExp(`^${escapeRegExp(scheme)}([a-z0-9-]+\\.)+${escapeRegExp(host)}$`, 'i'));
+    } else {
+      exact.add(pattern.toLowerCase());
+    }
+  }
+
+  return (origin) => exact.has(origin.toLowerCase()) || wildcards.some((regexp) => regexp.test(origin));
+}
+
+// Lista de direcciones y rangos CIDR (IPv4 e IPv6)
+function createAddressList(entries: string[]): BlockList {
+  const list = new BlockList();
+  for (const entry of entries) {
+    const [address, prefix] = entry.split('/');
+    const family = isIP(address);
+    const bits = prefix === undefined ? null : Number(prefix);
+    const maxBits = family === 4 ? 32 : 128;
+    if (family === 0 || (bits !== null && !(Number.isInteger(bits) && bits >= 0 && bits <= maxBits))) {
+      throw new Error(`Invalid IP address or CIDR range: ${entry}`);
+    }
+
+    const type = family === 4 ? 'ipv4' : 'ipv6';
+    if (bits === null) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, bits, type);
+    }
+  }
+  return list;
+}
+
+function matchesAddress(list: BlockList, address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && list.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Las IPv4 mapeadas en IPv6 (`::ffff:10.0.0.1`) se comparan como IPv4
+function normalizeAddress(address: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1] : address;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,26 +1,147 @@
 import WebSocket from 'ws';
-import { Server } from 'http';
-import { ClientType, WebSocketClient, WebSocketMessage, WebSocketMessageType } from '../../types/websocket';
+import { randomUUID } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { IncomingMessage, Server } from 'http';
+import {
+  AuthenticatedRequest,
+  ClientType,
+  ClientTypeDeliveryResult,
+  DeliveryResult,
+  DisconnectResult,
+  WebSocketClient,
+  WebSocketError,
+  WebSocketMessage,
+  WebSocketMessageType,
+  WebSocketServerOptions
+} from '../../types/websocket';
 import { PresenceService } from '../presence/presence-service';
 import logger from '../../services/logger';
 import { metricsService } from '../../services/metrics-service';
+import { authService, BEARER_PROTOCOL_PREFIX } from '../../services/auth-service';
+import { configureBackpressure, sendMessage } from './message-sender';
+import { decodeMessage, negotiateProtocolVersion, SUPPORTED_PROTOCOL_VERSIONS } from './message-validator';
+import { CODECS, EncodedMessage, getCodecForProtocol } from './codec';
+import { IdempotencyCache } from './idempotency-cache';
+import { RateBudget, RateLimiter } from './rate-limiter';
+import { UpgradePolicy, UpgradeRejection } from './upgrade-policy';
+import { RoomService } from '../rooms/room-service';
+import { Signal, SignalService } from '../signals/signal-service';
+import { ClusterService } from '../cluster/cluster-service';
+import { OfflineMessageQueue } from '../messaging/offline-queue';
+
+// Valores por defecto de las opciones del servidor
+const DEFAULT_OPTIONS: WebSocketServerOptions = {
+  heartbeatInterval: 30000, // Intervalo de latido
+  maxConnectionsPerUser: 5, // Máximo de conexiones por usuario
+  allowedOrigins: ['*'], // Cualquier origen
+  ipAllowList: [], // Cualquier IP
+  ipDenyList: [],
+  trustedProxies: [], // No se acepta `X-Forwarded-For` de ningún origen
+  maxConnections: 0, // Sin límite de conexiones en el nodo
+  messageRateLimit: 100, // Mensajes por segundo y socket
+  userMessageRateLimit: 200, // Mensajes por segundo y usuario
+  messageTypeRateLimits: {
+    [WebSocketMessageType.PRESENCE_UPDATE]: 5,
+    [WebSocketMessageType.SUBSCRIBE]: 10,
+    [WebSocketMessageType.UNSUBSCRIBE]: 10,
+    [WebSocketMessageType.JOIN]: 10,
+    [WebSocketMessageType.LEAVE]: 10,
+    [WebSocketMessageType.ROOM_METADATA]: 20,
+    [WebSocketMessageType.DIRECT_MESSAGE]: 20,
+    [WebSocketMessageType.AUTH]: 1
+  },
+  signalRateLimit: 10, // Señales efímeras por segundo
+  connectionRateLimit: 60, // Intentos de conexión por minuto y IP
+  rateLimitPenalty: 'error', // Responde con un frame de error
+  rateLimitMaxViolations: 10, // Infracciones por minuto antes de cerrar (con `close`)
+  backpressureHighWaterMark: 1024 * 1024, // 1MB sin enviar: se agrupan las actualizaciones de presencia
+  maxBufferedAmount: 4 * 1024 * 1024, // 4MB sin enviar: se aplica `slowConsumerPolicy`
+  slowConsumerPolicy: 'close', // Cierra el socket para que se reconecte y reciba un estado completo
+  compression: {
+    enabled: false, // Sin compresión salvo que se active
+    threshold: 1024, // Los mensajes pequeños no compensan el coste de comprimir
+    windowBits: 15,
+    memLevel: 8,
+    concurrencyLimit: 10,
+    disabledClientTypes: []
+  },
+  typingTimeout: 10000, // Diez segundos sin `typing_stop`
+  maxMessageSize: 1024 * 1024, // 1MB de tamaño máximo para un mensaje
+  reauthGracePeriod: 60000, // Un minuto para renovar un token expirado
+  maxSubscriptionsPerClient: 1000, // Usuarios observados por socket
+  maxRoomsPerClient: 100, // Salas por socket
+  idempotencyWindow: 60000, // Un minuto para reintentos con el mismo `id`
+  shutdownReconnectJitter: 5000 // Reparte las reconexiones en cinco segundos
+};
+
+// Tiempo que se espera a que los clientes completen el cierre antes de terminar sus sockets
+const CLOSE_HANDSHAKE_TIMEOUT = 2000;
+
+// Opciones que se fijan al crear el servidor y no se pueden cambiar en caliente
+const RESTART_REQUIRED_OPTIONS: (keyof WebSocketServerOptions)[] = ['compression', 'typingTimeout', 'idempotencyWindow'];
+
+// Código de cierre por infringir repetidamente los límites de tasa (policy violation)
+const RATE_LIMIT_CLOSE_CODE = 1008;
+
+// Códigos de cierre que indican un corte (no una salida voluntaria) y permiten reanudar la sesión
+const RESUMABLE_CLOSE_CODES = new Set([1001, 1006]);
+
+// Tipos de mensaje que un cliente puede reintentar con el mismo `id` sin efectos duplicados
+const IDEMPOTENT_MESSAGE_TYPES: Set<WebSocketMessageType> = new Set([
+  WebSocketMessageType.PRESENCE_UPDATE,
+  WebSocketMessageType.SUBSCRIBE,
+  WebSocketMessageType.UNSUBSCRIBE,
+  WebSocketMessageType.ACTIVITY,
+  WebSocketMessageType.JOIN,
+  WebSocketMessageType.LEAVE,
+  WebSocketMessageType.ROOM_METADATA,
+  WebSocketMessageType.DIRECT_MESSAGE
+]);
 
 export class WebSocketServer {
   private wss: WebSocket.Server;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private metricsInterval: NodeJS.Timeout | null = null;
+  private shuttingDown = false;
   private readonly clientMap: Map<string, Set<WebSocketClient>> = new Map();
+  private options: WebSocketServerOptions;
+  private readonly idempotencyCache: IdempotencyCache<WebSocketMessage | null>;
+  private readonly rateLimiter = new RateLimiter();
+  private upgradePolicy: UpgradePolicy;
+  private messageTypeRateLimits: Partial<Record<WebSocketMessageType, number>>;
+  private readonly rooms: RoomService;
+  private readonly signals: SignalService;
 
   constructor(
     server: Server,
     private presenceService: PresenceService,
-    private options = { 
-      heartbeatInterval: 30000, // Intervalo de latido
-      maxConnectionsPerUser: 5, // Máximo de conexiones por usuario
-      messageRateLimit: 100, // Mensajes por segundo
-      maxMessageSize: 1024 * 1024 // 1MB de tamaño máximo para un mensaje
-    }
+    options: Partial<WebSocketServerOptions> = {},
+    private readonly cluster?: ClusterService,
+    private readonly offlineQueue?: OfflineMessageQueue | null
   ) {
-    this.wss = new WebSocket.Server({ server });
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    validateOptions(this.options);
+    this.upgradePolicy = new UpgradePolicy(this.options);
+    this.messageTypeRateLimits = resolveMessageTypeRateLimits(this.options);
+    this.idempotencyCache = new IdempotencyCache(this.options.idempotencyWindow);
+    configureBackpressure({
+      highWaterMark: this.options.backpressureHighWaterMark,
+      maxBufferedAmount: this.options.maxBufferedAmount,
+      slowConsumerPolicy: this.options.slowConsumerPolicy
+    });
+    this.rooms = new RoomService(presenceService);
+    this.signals = new SignalService((signal) => this.relaySignal(signal), this.options.typingTimeout);
+    this.cluster?.onDirect((userId, message) => this.deliverLocally(userId, message));
+    this.cluster?.onClientType((clientType, message) => this.deliverToClientType(clientType, message));
+    this.cluster?.onKick((userId, reason) => this.closeUserConnections(userId, reason));
+    this.wss = new WebSocket.Server({
+      server,
+      perMessageDeflate: this.getPerMessageDeflateOptions(),
+      verifyClient: (info, callback) => this.verifyClient(info, callback),
+      handleProtocols: (protocols) => this.selectProtocol(protocols)
+    });
+    // Antes que el servidor WebSocket: los clientes sin compresión no llegan a negociar la extensión
+    server.prependListener('upgrade', (req: IncomingMessage) => this.filterCompressionOffer(req));
     this.initialize();
   }
 
@@ -35,12 +156,13 @@ export class WebSocketServer {
 
   // Configura las métricas del servidor
   private setupServerMetrics(): void {
-    setInterval(() => {
+    this.metricsInterval = setInterval(() => {
       const totalClients = this.getConnectedClients();
       const uniqueUsers = this.clientMap.size;
       
       metricsService.updateClients('total', 'all', 'any', totalClients);
       metricsService.updateClients('unique', 'all', 'any', uniqueUsers);
+      this.wss.clients.forEach((client) => this.recordWireBytes(client as WebSocketClient));
       
       // Métricas de memoria
       const memUsage = process.memoryUsage();
@@ -49,19 +171,139 @@ export class WebSocketServer {
     }, 5000); // Actualiza cada 5 segundos
   }
 
+  // Suma a las métricas los bytes del socket TCP transmitidos desde la última medición
+  private recordWireBytes(ws: WebSocketClient): void {
+    if (!ws.transport || !ws.wireBytes) {
+      return;
+    }
+
+    const { bytesRead, bytesWritten } = ws.transport;
+    const compression = ws.compression || 'none';
+    metricsService.addWireBytes('inbound', compression, bytesRead - ws.wireBytes.read);
+    metricsService.addWireBytes('outbound', compression, bytesWritten - ws.wireBytes.written);
+    ws.wireBytes = { read: bytesRead, written: bytesWritten };
+  }
+
+  // Responde al upgrade con el error HTTP del rechazo y lo cuenta por motivo
+  private rejectUpgrade(
+    callback: (result: boolean, code?: number, message?: string, headers?: Record<string, string>) => void,
+    rejection: UpgradeRejection
+  ): void {
+    metricsService.incrementConnections(rejection.reason, 'unknown', 'wss');
+    metricsService.incrementUpgradeRejections(rejection.reason, rejection.status);
+    callback(false, rejection.status, rejection.message, rejection.headers);
+  }
+
+  // Opciones de permessage-deflate del servidor WebSocket (false si la compresión está desactivada)
+  private getPerMessageDeflateOptions(): WebSocket.PerMessageDeflateOptions | false {
+    const compression = this.options.compression;
+    if (!compression.enabled) {
+      return false;
+    }
+
+    return {
+      threshold: compression.threshold,
+      concurrencyLimit: compression.concurrencyLimit,
+      serverMaxWindowBits: compression.windowBits,
+      zlibDeflateOptions: { memLevel: compression.memLevel }
+    };
+  }
+
+  // Retira la oferta de compresión de los tipos de cliente que la tienen desactivada
+  private filterCompressionOffer(req: IncomingMessage): void {
+    const compression = this.options.compression;
+    if (compression.enabled && compression.disabledClientTypes.includes(this.getClientType(req) as ClientType)) {
+      delete req.headers['sec-websocket-extensions'];
+    }
+  }
+
+  // Autentica la solicitud de upgrade antes de aceptar el socket (401 si el token no es válido)
+  private async verifyClient(
+    info: { origin: string; secure: boolean; req: AuthenticatedRequest },
+    callback: (result: boolean, code?: number, message?: string, headers?: Record<string, string>) => void
+  ): Promise<void> {
+    if (this.shuttingDown) {
+      this.rejectUpgrade(callback, { reason: 'shutting_down', status: 503, message: 'Server shutting down', headers: { 'Retry-After': '1' } });
+      return;
+    }
+
+    const clientAddress = this.upgradePolicy.resolveClientAddress(info.req.socket.remoteAddress, info.req.headers['x-forwarded-for']);
+    const rejection = this.upgradePolicy.check({
+      origin: info.origin,
+      ip: clientAddress,
+      connections: this.wss.clients.size
+    });
+    if (rejection) {
+      this.rejectUpgrade(callback, rejection);
+      return;
+    }
+
+    const limit = this.options.connectionRateLimit;
+    if (!this.rateLimiter.consume(`ip:${clientAddress}`, { rate: limit / 60, burst: limit })) {
+      metricsService.incrementRateLimited('ip', 'connect', 'reject');
+      this.rejectUpgrade(callback, {
+        reason: 'rate_limited',
+        status: 429,
+        message: 'Too many connection attempts',
+        headers: { 'Retry-After': String(Math.ceil(60 / limit)) }
+      });
+      return;
+    }
+
+    const protocolVersion = negotiateProtocolVersion(this.getQueryParam(info.req, 'protocolVersion'));
+    if (protocolVersion === null) {
+      this.rejectUpgrade(callback, {
+        reason: 'unsupported_protocol',
+        status: 400,
+        message: `Unsupported protocol version (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+      });
+      return;
+    }
+
+    const auth = await authService.authenticateRequest(info.req);
+    if (!auth) {
+      this.rejectUpgrade(callback, { reason: 'unauthorized', status: 401, message: 'Unauthorized', headers: { 'WWW-Authenticate': 'Bearer' } });
+      return;
+    }
+
+    info.req.auth = auth;
+    info.req.protocolVersion = protocolVersion;
+    info.req.clientAddress = clientAddress;
+    callback(true);
+  }
+
+  // Selecciona el subprotocolo de la respuesta sin devolver nunca el token bearer.
+  // Se prefiere el primer subprotocolo de codificación que ofrezca el cliente (`presence.<encoding>.v1`).
+  private selectProtocol(protocols: Set<string>): string | false {
+    const codecProtocols = Object.values(CODECS).map((codec) => codec.protocol);
+    for (const protocol of protocols) {
+      if (codecProtocols.includes(protocol)) {
+        return protocol;
+      }
+    }
+    for (const protocol of protocols) {
+      if (!protocol.startsWith(BEARER_PROTOCOL_PREFIX)) {
+        return protocol;
+      }
+    }
+    return false;
+  }
+
   // Configura los manejadores de eventos para el servidor WebSocket
   private setupServerHandlers(): void {
-    this.wss.on('connection', async (ws: WebSocketClient, req) => {
+    this.wss.on('connection', async (ws: WebSocketClient, req: AuthenticatedRequest) => {
       const connectionStart = Date.now();
       try {
-        const userId = this.getUserIdFromRequest(req);
+        const auth = req.auth;
         const clientType = this.getClientType(req);
         
-        if (!userId) {
-          this.handleError(ws, 'AUTH_ERROR', 'userId is required');
+        if (!auth) {
+          this.handleError(ws, 'AUTH_ERROR', 'Authentication required');
           return;
         }
 
+        const userId = auth.userId;
+
         if (!this.canUserConnect(userId)) {
           this.handleError(ws, 'LIMIT_ERROR', 'Maximum connections reached for user');
           return;
@@ -73,28 +315,65 @@ export class WebSocketServer {
         
         ws.userId = userId;
         ws.clientType = clientType as ClientType;
+        ws.deviceId = this.getDeviceId(req);
         ws.isAlive = true;
         ws.connectionTime = new Date();
+        ws.connectionId = randomUUID();
         ws.messageCount = 0;
         ws.lastMessageTime = Date.now();
+        ws.claims = auth.claims;
+        ws.tokenExpiresAt = auth.expiresAt;
+        ws.protocolVersion = req.protocolVersion;
+        ws.encoding = getCodecForProtocol(ws.protocol).encoding;
+        ws.compression = ws.extensions.includes('permessage-deflate') ? 'deflate' : 'none';
+        ws.transport = req.socket;
+        ws.wireBytes = { read: req.socket.bytesRead, written: req.socket.bytesWritten };
 
         this.setupClientHandlers(ws);        
       
-        await this.presenceService.addConnection(userId, ws);
+        // Reanuda la sesión anterior si el cliente presenta un token válido
+        const resumeToken = this.getQueryParam(req, 'resumeToken');
+        const snapshot = resumeToken
+          ? await this.presenceService.resumeConnection(userId, ws, resumeToken)
+          : null;
+        if (!snapshot) {
+          await this.presenceService.addConnection(userId, ws);
+        }
 
         // Enviar confirmación de conexión
         this.sendMessage(ws, {
           type: WebSocketMessageType.CONNECT,
           userId,
           timestamp: new Date().toISOString(),
+          payload: {
+            protocolVersion: ws.protocolVersion,
+            supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+            encoding: ws.encoding,
+            deviceId: ws.deviceId,
+            resumeToken: ws.resumeToken,
+            resumed: snapshot !== null
+          },
           serverTime: Date.now()
         });
 
+        // Tras reanudar, envía el estado actual de las suscripciones restauradas
+        if (snapshot && snapshot.length > 0) {
+          this.sendMessage(ws, {
+            type: WebSocketMessageType.PRESENCE_SNAPSHOT,
+            timestamp: new Date().toISOString(),
+            payload: { presence: snapshot },
+            serverTime: Date.now()
+          });
+        }
+
+        await this.flushOfflineQueue(ws);
+
         logger.info('Client connected', {
           userId,
           clientType,
+          resumed: snapshot !== null,
           timestamp: new Date().toISOString(),
-          remoteAddress: req.socket.remoteAddress
+          remoteAddress: req.clientAddress
         });
 
       } catch (error) {
@@ -131,21 +410,31 @@ export class WebSocketServer {
     return currentConnections < this.options.maxConnectionsPerUser;
   }
 
-  // Extrae el ID de usuario de la solicitud HTTP
-  private getUserIdFromRequest(req: any): string | null {
+  // Determina el tipo de cliente: parámetro `clientType` de la URL o, si no es válido, el user-agent
+  private getClientType(req: any): string {
+    const requested = this.getQueryParam(req, 'clientType');
+    if (requested && Object.values(ClientType).includes(requested as ClientType)) {
+      return requested;
+    }
+    return req.headers['user-agent']?.includes('Flutter') ? 'flutter' : 'unknown';
+  }
+
+  // Obtiene el ID de dispositivo enviado por el cliente o genera uno para la conexión
+  private getDeviceId(req: IncomingMessage): string {
+    const deviceId = this.getQueryParam(req, 'deviceId');
+    return deviceId && deviceId.length <= 128 ? deviceId : randomUUID();
+  }
+
+  // Lee un parámetro de la URL de la solicitud de upgrade
+  private getQueryParam(req: IncomingMessage, name: string): string | null {
     try {
-      const url = new URL(req.url, `http://${req.headers.host}`);
-      return url.searchParams.get('userId');
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      return url.searchParams.get(name);
     } catch {
       return null;
     }
   }
 
-  // Determina el tipo de cliente basado en el user-agent
-  private getClientType(req: any): string {
-    return req.headers['user-agent']?.includes('Flutter') ? 'flutter' : 'unknown';
-  }
-
   // Configura los manejadores de eventos para cada cliente WebSocket
   private setupClientHandlers(ws: WebSocketClient): void {
     ws.on('pong', () => {
@@ -162,23 +451,43 @@ export class WebSocketServer {
   private createMessageHandler(ws: WebSocketClient) {
     return async (data: WebSocket.RawData) => {
       const messageStart = Date.now();
+      let requestId: string | undefined;
       try {
-        const messageSize = Buffer.from(data as Buffer).byteLength;
+        const buffer = toBuffer(data);
+        const messageSize = buffer.byteLength;
    
         if (messageSize > this.options.maxMessageSize) {
-          this.handleError(ws, 'MESSAGE_TOO_LARGE', 'Message exceeds size limit');
+          this.sendError(ws, 'MESSAGE_TOO_LARGE', 'Message exceeds size limit');
+          return;
+        }
+
+        ws.messageCount++;
+        ws.lastMessageTime = messageStart;
+        metricsService.addPayloadBytes('inbound', ws.compression || 'none', messageSize);
+
+        // Límites por socket y por usuario antes de interpretar el mensaje, para frenar inundaciones
+        const scope = this.checkConnectionRateLimits(ws);
+        if (scope) {
+          this.applyRateLimitPenalty(ws, scope, 'any');
           return;
         }
 
-        if (!this.checkMessageRateLimit(ws)) {
-          this.handleError(ws, 'RATE_LIMIT', 'Message rate limit exceeded');
+        const result = decodeMessage(buffer, CODECS[ws.encoding || 'json']);
+        if (!result.valid) {
+          metricsService.incrementMessages('invalid', 'inbound', 'error');
+          this.sendError(ws, result.code, result.error, result.requestId);
           return;
         }
 
-        const message = JSON.parse(data.toString()) as WebSocketMessage;
-        const messageType = message.type || 'unknown';
+        const message = result.message;
+        requestId = message.id;
+
+        if (!this.checkMessageTypeRateLimit(ws, message.type)) {
+          this.applyRateLimitPenalty(ws, 'type', message.type, message.id);
+          return;
+        }
         
-        metricsService.incrementMessages(messageType, 'inbound', 'success');
+        metricsService.incrementMessages(message.type, 'inbound', 'success');
         metricsService.observeMessageSize('message', 'inbound', messageSize);
         metricsService.observeLatency('message_processing', (Date.now() - messageStart) / 1000);
         
@@ -191,24 +500,41 @@ export class WebSocketServer {
           userId: ws.userId,
           timestamp: new Date().toISOString()
         });
+        this.sendError(ws, 'INTERNAL_ERROR', 'Error processing message', requestId);
       }
     };
   }
 
-  // Crea un manejador para el cierre de la conexión
+  // Crea un manejador para el cierre de la conexión; tras un corte la sesión se retiene para reanudarla
   private createCloseHandler(ws: WebSocketClient) {
-    return async () => {
+    return async (code: number) => {
       try {
         if (ws.userId) {
           this.removeClient(ws.userId, ws);
+          this.rateLimiter.delete(`socket:${ws.connectionId}`);
           metricsService.decrementConnections(ws.clientType || 'unknown');
-          await this.presenceService.removeConnection(ws.userId, ws);
+          this.recordWireBytes(ws);
+          // Un socket sustituido al reanudar la sesión ya cedió su dispositivo, salas y presencia al nuevo
+          let held = false;
+          if (!ws.superseded) {
+            this.signals.clearDevice(ws.userId, ws.deviceId);
+            // Una sesión retenida conserva sus salas hasta que se reanuda o vence el periodo de gracia
+            held = RESUMABLE_CLOSE_CODES.has(code) && !this.shuttingDown
+              && this.presenceService.holdConnection(ws.userId, ws);
+            if (!held) {
+              this.rooms.leaveAll(ws);
+              await this.presenceService.removeConnection(ws.userId, ws);
+            }
+          }
           
           const sessionDuration = (Date.now() - ws.connectionTime.getTime()) / 1000;
           metricsService.observeLatency('session_duration', sessionDuration);
           
           logger.info('Client disconnected', {
             userId: ws.userId,
+            code,
+            held,
+            superseded: ws.superseded === true,
             duration: sessionDuration,
             timestamp: new Date().toISOString()
           });
@@ -232,44 +558,212 @@ export class WebSocketServer {
     };
   }
 
-  // Maneja los mensajes recibidos
+  // Maneja los mensajes recibidos; los tipos idempotentes con `id` se procesan una sola vez por ventana
   private async handleMessage(ws: WebSocketClient, message: WebSocketMessage): Promise<void> {
+    if (message.id && ws.userId && IDEMPOTENT_MESSAGE_TYPES.has(message.type)) {
+      const { result, replayed } = await this.idempotencyCache.execute(
+        `${ws.userId}:${message.id}`,
+        () => this.processMessage(ws, message),
+        (reply) => reply?.type !== WebSocketMessageType.ERROR
+      );
+      if (replayed) {
+        metricsService.incrementMessages('idempotent_replay', 'inbound', 'success');
+        logger.debug('Replaying response for retried message', { userId: ws.userId, id: message.id });
+      }
+      if (result) {
+        this.sendMessage(ws, result);
+      }
+      return;
+    }
+
+    const reply = await this.processMessage(ws, message);
+    if (reply) {
+      this.sendMessage(ws, reply);
+    }
+  }
+
+  // Procesa un mensaje y devuelve la respuesta a enviar (o null si no hay respuesta)
+  private async processMessage(ws: WebSocketClient, message: WebSocketMessage): Promise<WebSocketMessage | null> {
+    let reply: WebSocketMessage | null;
     switch (message.type) {
       case WebSocketMessageType.HEARTBEAT:
-        this.handleHeartbeat(ws);
+        reply = this.handleHeartbeat(ws, message);
         break;
         
       case WebSocketMessageType.PRESENCE_UPDATE:
-        await this.handlePresenceUpdate(ws, message);
+        reply = await this.handlePresenceUpdate(ws, message);
         break;
         
       case WebSocketMessageType.DISCONNECT:
-        this.handleDisconnect(ws);
+        reply = this.handleDisconnect(ws);
+        break;
+
+      case WebSocketMessageType.SUBSCRIBE:
+        reply = await this.handleSubscribe(ws, message);
+        break;
+
+      case WebSocketMessageType.UNSUBSCRIBE:
+        reply = this.handleUnsubscribe(ws, message);
+        break;
+
+      case WebSocketMessageType.AUTH:
+        reply = await this.handleReauth(ws, message);
+        break;
+
+      case WebSocketMessageType.JOIN:
+        reply = this.handleJoin(ws, message);
+        break;
+
+      case WebSocketMessageType.LEAVE:
+        this.rooms.leave(ws, message.payload.roomId);
+        reply = this.createAck(message);
+        break;
+
+      case WebSocketMessageType.ROOM_METADATA:
+        reply = this.handleRoomMetadata(ws, message);
+        break;
+
+      case WebSocketMessageType.SIGNAL:
+        reply = this.handleSignal(ws, message);
+        break;
+
+      case WebSocketMessageType.DIRECT_MESSAGE:
+        reply = await this.handleDirectMessage(ws, message);
+        break;
+
+      case WebSocketMessageType.ACTIVITY:
+        // Solo marca actividad (se registra abajo)
+        reply = this.createAck(message);
         break;
         
       default:
-        logger.debug('Unknown message type', {
-          type: message.type,
-          userId: ws.userId
-        });
+        // El validador solo deja pasar tipos soportados; esto indica un tipo sin manejador
+        return this.createError(ws, 'UNSUPPORTED_TYPE', `Unsupported message type: ${message.type}`, message.id);
+    }
+
+    // Cualquier mensaje de la aplicación (no los latidos) cuenta como actividad del usuario
+    if (message.type !== WebSocketMessageType.HEARTBEAT) {
+      await this.presenceService.recordActivity(ws);
     }
+
+    return reply;
   }
 
-  // Verifica el límite de tasa de mensajes (mensajes por segundo)
-  private checkMessageRateLimit(ws: WebSocketClient): boolean {
-    const now = Date.now();
-    ws.messageCount = (ws.messageCount || 0) + 1;
-    
-    if (now - (ws.lastMessageTime || 0) >= 1000) {
-      ws.messageCount = 1;
-      ws.lastMessageTime = now;
-      return true;
+  // Crea la confirmación de un mensaje procesado (solo si el cliente envió un `id`)
+  private createAck(message: WebSocketMessage, details?: Record<string, any>): WebSocketMessage | null {
+    if (!message.id) {
+      return null;
     }
-    
-    return ws.messageCount <= this.options.messageRateLimit;
+
+    return {
+      id: message.id,
+      type: WebSocketMessageType.ACK,
+      timestamp: new Date().toISOString(),
+      payload: { type: message.type, ...details },
+      serverTime: Date.now()
+    };
   }
 
-  // Maneja los errores del WebSocket
+  // Consume el presupuesto del socket y del usuario; devuelve el ámbito agotado o null
+  private checkConnectionRateLimits(ws: WebSocketClient): 'socket' | 'user' | null {
+    if (!this.rateLimiter.consume(`socket:${ws.connectionId}`, perSecond(this.options.messageRateLimit))) {
+      return 'socket';
+    }
+    if (!this.rateLimiter.consume(`user:${ws.userId}`, perSecond(this.options.userMessageRateLimit))) {
+      return 'user';
+    }
+    return null;
+  }
+
+  // Consume el presupuesto propio del tipo de mensaje en este socket (los tipos sin límite siempre pasan)
+  private checkMessageTypeRateLimit(ws: WebSocketClient, type: WebSocketMessageType): boolean {
+    const limit = this.messageTypeRateLimits[type];
+    return limit === undefined || this.rateLimiter.consume(`type:${ws.connectionId}:${type}`, perSecond(limit));
+  }
+
+  // Aplica la penalización configurada a un mensaje que superó un límite
+  private applyRateLimitPenalty(ws: WebSocketClient, scope: string, type: string, requestId?: string): void {
+    const { rateLimitPenalty, rateLimitMaxViolations } = this.options;
+    const exhausted = rateLimitPenalty === 'close' && !this.rateLimiter.consume(
+      `violations:${ws.connectionId}`,
+      { rate: rateLimitMaxViolations / 60, burst: rateLimitMaxViolations }
+    );
+    const action = exhausted ? 'close' : rateLimitPenalty === 'drop' ? 'drop' : 'error';
+    metricsService.incrementRateLimited(scope, type, action);
+
+    if (action === 'drop') {
+      return;
+    }
+
+    this.sendError(ws, 'RATE_LIMIT', `Rate limit exceeded (${scope})`, requestId);
+    if (action === 'close') {
+      logger.warn('Closing socket after repeated rate limit violations', { userId: ws.userId, scope, type });
+      ws.close(RATE_LIMIT_CLOSE_CODE, 'Rate limit exceeded');
+    }
+  }
+
+  // Entrega una señal a los sockets de la sala o de los destinatarios (nunca al propio emisor);
+  // con clúster, la reenvía a los nodos donde los destinatarios tienen conexiones
+  private relaySignal(signal: Signal): void {
+    const message: WebSocketMessage = {
+      type: WebSocketMessageType.SIGNAL,
+      timestamp: new Date().toISOString(),
+      payload: {
+        signal: signal.name,
+        from: signal.from,
+        deviceId: signal.deviceId,
+        roomId: signal.target.roomId,
+        data: signal.data,
+        expired: signal.expired
+      },
+      serverTime: Date.now()
+    };
+
+    if (signal.target.roomId) {
+      this.rooms.sendToRoom(signal.target.roomId, message, signal.from);
+    } else {
+      new Set(signal.target.userIds).forEach((userId) => {
+        if (userId !== signal.from) {
+          this.deliverLocally(userId, message);
+          if (this.cluster && this.cluster.getRemoteConnectionCount(userId) > 0) {
+            this.cluster.publishDirect(userId, message);
+          }
+        }
+      });
+    }
+    metricsService.incrementMessages(`signal_${signal.expired ? 'expired' : 'relayed'}`, 'outbound', 'success');
+  }
+
+  // Envía un frame de error al cliente sin cerrar la conexión
+  private sendError(ws: WebSocketClient, code: string, message: string, requestId?: string, details?: any): void {
+    this.sendMessage(ws, this.createError(ws, code, message, requestId, details));
+  }
+
+  // Crea un frame de error con el código, la descripción y el `id` de la petición
+  private createError(ws: WebSocketClient, code: string, message: string, requestId?: string, details?: any): WebSocketMessage {
+    metricsService.incrementErrors(code.toLowerCase(), 'low', 'client');
+    logger.debug(`Sending error frame: ${code}`, { message, requestId, userId: ws.userId });
+
+    const error: WebSocketError = {
+      code,
+      message,
+      timestamp: new Date(),
+      userId: ws.userId,
+      clientType: ws.clientType,
+      requestId,
+      details
+    };
+
+    return {
+      id: requestId,
+      type: WebSocketMessageType.ERROR,
+      timestamp: new Date().toISOString(),
+      payload: error,
+      serverTime: Date.now()
+    };
+  }
+
+  // Maneja los errores del WebSocket (errores de conexión: cierra el socket)
   private handleError(ws: WebSocketClient, code: string, message: string): void {
     metricsService.incrementErrors(code.toLowerCase(), 'medium', 'server');
     logger.error(`WebSocket error: ${code}`, { message, userId: ws.userId });
@@ -287,6 +781,10 @@ export class WebSocketServer {
           return ws.terminate();
         }
   
+        if (this.isSessionExpired(ws)) {
+          return;
+        }
+  
         // Se envía un ping para mantener la conexión activa
         ws.isAlive = false;
         ws.ping();
@@ -294,32 +792,49 @@ export class WebSocketServer {
     }, this.options.heartbeatInterval); // Intervalo de latidos configurado
   }
   
+  // Verifica la expiración del token: avisa al cliente y lo cierra si no se re-autentica a tiempo
+  private isSessionExpired(ws: WebSocketClient): boolean {
+    const now = Date.now();
+    if (!ws.tokenExpiresAt || now < ws.tokenExpiresAt) {
+      return false;
+    }
+
+    if (!ws.reauthDeadline) {
+      ws.reauthDeadline = now + this.options.reauthGracePeriod;
+      this.sendMessage(ws, {
+        type: WebSocketMessageType.AUTH_EXPIRED,
+        userId: ws.userId,
+        timestamp: new Date().toISOString(),
+        payload: { reauthDeadline: new Date(ws.reauthDeadline).toISOString() },
+        serverTime: now
+      });
+      return false;
+    }
+
+    if (now >= ws.reauthDeadline) {
+      metricsService.incrementErrors('token_expired', 'low', 'client');
+      logger.info('Closing connection with expired token', { userId: ws.userId });
+      ws.close(4001, 'Token expired');
+      return true;
+    }
+
+    return false;
+  }
+
   // Envía un mensaje a un cliente WebSocket
   private sendMessage(ws: WebSocketClient, message: WebSocketMessage): void {
-    if (ws.readyState === WebSocket.OPEN) {
-      try {
-        const data = JSON.stringify(message);
-        ws.send(data); // Enviar el mensaje al cliente
-        metricsService.incrementMessages(message.type, 'outbound', 'success');
-        metricsService.observeMessageSize('message', 'outbound', data.length);
-      } catch (error) {
-        // Manejo de errores al enviar el mensaje
-        metricsService.incrementErrors('send_message', 'medium', 'server');
-        logger.error('Send message error:', error);
-      }
-    }
+    sendMessage(ws, message);
   }
 
   // Realiza una transmisión de un mensaje a todos los clientes conectados
   public broadcast(message: WebSocketMessage, exclude?: string): void {
-    const data = JSON.stringify(message);
+    const encoded = new EncodedMessage(message);
     let sentCount = 0;
     
     // Itera sobre todos los clientes conectados
     this.wss.clients.forEach((rawClient: WebSocket) => {
       const client = rawClient as WebSocketClient;
-      if (client.readyState === WebSocket.OPEN && client.userId !== exclude) {
-        client.send(data); // Enviar el mensaje al cliente
+      if (client.userId !== exclude && sendMessage(client, message, encoded)) {
         sentCount++;
       }
     });
@@ -329,6 +844,205 @@ export class WebSocketServer {
     logger.debug(`Broadcast message sent to ${sentCount} clients`);
   }
 
+  /**
+   * Envía un mensaje a todos los sockets de un usuario.
+   * - Entrega a los sockets de este nodo y, con clúster, lo reenvía a los nodos donde el usuario tiene conexiones.
+   * - Si el usuario no tiene conexiones en ningún nodo y `queueIfOffline` es true, lo guarda en la cola
+   *   de pendientes (si hay una configurada) para entregarlo en su próxima conexión.
+   */
+  public async sendToUser(userId: string, message: WebSocketMessage, queueIfOffline: boolean = true): Promise<DeliveryResult> {
+    const delivered = this.deliverLocally(userId, message);
+    const relayed = !!this.cluster && this.cluster.getRemoteConnectionCount(userId) > 0;
+    if (relayed) {
+      this.cluster?.publishDirect(userId, message);
+    }
+
+    let queued = false;
+    if (delivered === 0 && !relayed && queueIfOffline && this.offlineQueue) {
+      await this.offlineQueue.enqueue(userId, message);
+      queued = true;
+      metricsService.incrementMessages('queued_message', 'outbound', 'success');
+    }
+
+    return { delivered, relayed, queued };
+  }
+
+  /**
+   * Envía un mensaje a todos los sockets de un tipo de cliente (en este nodo y, con clúster, en los demás).
+   * Los otros nodos no confirman sus entregas, así que solo se cuentan los sockets de este nodo.
+   * @returns Sockets de este nodo que lo recibieron y nodos a los que se reenvió
+   */
+  public sendToClientType(clientType: ClientType, message: WebSocketMessage): ClientTypeDeliveryResult {
+    this.cluster?.publishToClientType(clientType, message);
+    return {
+      delivered: this.deliverToClientType(clientType, message),
+      relayed: this.cluster?.getRemoteNodeCount() || 0
+    };
+  }
+
+  // Entrega un mensaje a los sockets de un tipo de cliente en este nodo
+  private deliverToClientType(clientType: ClientType, message: WebSocketMessage): number {
+    let delivered = 0;
+    this.clientMap.forEach((clients) => {
+      clients.forEach((client) => {
+        if (client.clientType === clientType && sendMessage(client, message)) {
+          delivered++;
+        }
+      });
+    });
+    return delivered;
+  }
+
+  // Entrega un mensaje a los sockets de un usuario en este nodo y devuelve cuántos lo recibieron
+  private deliverLocally(userId: string, message: WebSocketMessage): number {
+    let delivered = 0;
+    this.clientMap.get(userId)?.forEach((client) => {
+      if (sendMessage(client, message)) {
+        delivered++;
+      }
+    });
+    return delivered;
+  }
+
+  // Entrega los mensajes pendientes al conectarse; los que no se puedan enviar vuelven a la cola
+  private async flushOfflineQueue(ws: WebSocketClient): Promise<void> {
+    if (!this.offlineQueue || !ws.userId) {
+      return;
+    }
+
+    const pending = await this.offlineQueue.drain(ws.userId);
+    for (const message of pending) {
+      if (!sendMessage(ws, message)) {
+        await this.offlineQueue.enqueue(ws.userId, message);
+      }
+    }
+    if (pending.length > 0) {
+      logger.info(`Delivered ${pending.length} queued messages to ${ws.userId}`);
+    }
+  }
+
+  /**
+   * Cierra todas las conexiones de un usuario (código 1008).
+   * Con clúster, pide también el cierre a los nodos donde el usuario tiene conexiones.
+   */
+  public disconnectUser(userId: string, reason: string = 'Disconnected by administrator'): DisconnectResult {
+    const disconnected = this.closeUserConnections(userId, reason);
+    const remote = this.cluster?.getRemoteConnectionCount(userId) || 0;
+    if (remote > 0) {
+      this.cluster?.publishKick(userId, reason);
+    }
+    return { disconnected, remote };
+  }
+
+  // Cierra todas las conexiones de un usuario en este nodo y devuelve cuántas se cerraron
+  private closeUserConnections(userId: string, reason: string): number {
+    const userConnections = this.clientMap.get(userId);
+    if (!userConnections) {
+      return 0;
+    }
+
+    const count = userConnections.size;
+    userConnections.forEach((ws) => ws.close(1008, reason));
+    metricsService.incrementConnections('kicked', 'all', 'wss');
+    return count;
+  }
+
+  /**
+   * Aplica nuevas opciones sin reiniciar el servidor.
+   * - Los límites de tasa, tamaños y umbrales se leen en cada uso, así que afectan ya a las conexiones abiertas.
+   * - La política del upgrade (orígenes, listas de IP, límite del nodo) se aplica a las conexiones nuevas.
+   * - Si cambia `heartbeatInterval`, se reinicia el temporizador de latidos.
+   * - `compression`, `typingTimeout` e `idempotencyWindow` se fijan al crear el servidor: conservan su valor
+   *   y se devuelven en `restartRequired`.
+   *
+   * @throws Error Si alguna opción no es válida; en ese caso no se aplica ningún cambio
+   */
+  public updateOptions(options: Partial<WebSocketServerOptions>): { changed: string[]; restartRequired: string[] } {
+    const requested: WebSocketServerOptions = { ...this.options, ...options };
+    validateOptions(requested);
+
+    const restartRequired = RESTART_REQUIRED_OPTIONS.filter((key) => !isDeepStrictEqual(requested[key], this.options[key]));
+    const next: WebSocketServerOptions = {
+      ...requested,
+      compression: this.options.compression,
+      typingTimeout: this.options.typingTimeout,
+      idempotencyWindow: this.options.idempotencyWindow
+    };
+    const changed = (Object.keys(next) as (keyof WebSocketServerOptions)[])
+      .filter((key) => !isDeepStrictEqual(next[key], this.options[key]));
+
+    const upgradePolicy = new UpgradePolicy(next);
+    const previous = this.options;
+    this.options = next;
+    this.upgradePolicy = upgradePolicy;
+    this.messageTypeRateLimits = resolveMessageTypeRateLimits(next);
+    configureBackpressure({
+      highWaterMark: next.backpressureHighWaterMark,
+      maxBufferedAmount: next.maxBufferedAmount,
+      slowConsumerPolicy: next.slowConsumerPolicy
+    });
+
+    if (next.heartbeatInterval !== previous.heartbeatInterval && this.heartbeatInterval && !this.shuttingDown) {
+      clearInterval(this.heartbeatInterval);
+      this.startHeartbeat();
+    }
+
+    if (changed.length > 0 || restartRequired.length > 0) {
+      logger.info('WebSocket server options updated', { changed, restartRequired });
+    }
+    return { changed, restartRequired };
+  }
+
+  /**
+   * Cierra el servidor de forma ordenada.
+   * - Deja de aceptar upgrades (503) y detiene los temporizadores.
+   * - Envía `server_shutdown` a cada cliente con un retardo de reconexión aleatorio y cierra con 1012.
+   * - Espera a que los clientes completen el cierre y termina los sockets que no respondan.
+   */
+  public async shutdown(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    if (this.metricsInterval) {
+      clearInterval(this.metricsInterval);
+      this.metricsInterval = null;
+    }
+    this.signals.stop();
+
+    const clients = Array.from(this.wss.clients) as WebSocketClient[];
+    logger.info(`Closing ${clients.length} WebSocket connections`);
+
+    const closed = clients.map((ws) => new Promise<void>((resolve) => {
+      if (ws.readyState === WebSocket.CLOSED) {
+        resolve();
+        return;
+      }
+      ws.once('close', () => resolve());
+
+      this.sendMessage(ws, {
+        type: WebSocketMessageType.SERVER_SHUTDOWN,
+        userId: ws.userId,
+        timestamp: new Date().toISOString(),
+        payload: { reconnectAfter: Math.floor(Math.random() * this.options.shutdownReconnectJitter) },
+        serverTime: Date.now()
+      });
+      ws.close(1012, 'Server shutting down');
+    }));
+
+    const timeout = new Promise<void>((resolve) => setTimeout(resolve, CLOSE_HANDSHAKE_TIMEOUT).unref());
+    await Promise.race([Promise.all(closed), timeout]);
+    this.wss.clients.forEach((ws) => ws.terminate());
+
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    logger.info('WebSocket server closed');
+  }
+
   // Obtiene la cantidad de clientes conectados
   public getConnectedClients(): number {
     return this.wss.clients.size;
@@ -339,39 +1053,204 @@ export class WebSocketServer {
     return {
       totalConnections: this.wss.clients.size,
       uniqueUsers: this.clientMap.size,
+      rooms: this.rooms.getRoomCount(),
       uptime: process.uptime(),
       memory: process.memoryUsage()
     };
   }
 
   // Maneja el latido del WebSocket (ping/pong)
-private handleHeartbeat(ws: WebSocketClient): void {
+private handleHeartbeat(ws: WebSocketClient, message: WebSocketMessage): WebSocketMessage {
   ws.isAlive = true; // Marca al cliente como "vivo"
-  this.sendMessage(ws, {
+  return {
+    id: message.id,
     type: WebSocketMessageType.HEARTBEAT_ACK, // Acknowledge del latido
     timestamp: new Date().toISOString(),
     serverTime: Date.now()
-  });
+  };
 }
 
-// Maneja la actualización de la presencia de un usuario
-private async handlePresenceUpdate(ws: WebSocketClient, message: WebSocketMessage): Promise<void> {
-  if (ws.userId && message.payload?.status) {
+// Maneja la actualización de la presencia de un usuario; la confirmación se envía una vez persistida
+private async handlePresenceUpdate(ws: WebSocketClient, message: WebSocketMessage): Promise<WebSocketMessage | null> {
+  if (ws.userId) {
     // Actualiza el estado de presencia del usuario
     await this.presenceService.updatePresence(
       ws.userId,
       message.payload.status,
-      message.payload.metadata
+      message.payload.metadata,
+      ws
     );
     // Registra la actualización de presencia
     metricsService.incrementPresenceUpdates(message.payload.status, 'success');
   }
+  return this.createAck(message);
+}
+
+// Suscribe al cliente a la presencia de una lista de usuarios y devuelve su estado actual
+private async handleSubscribe(ws: WebSocketClient, message: WebSocketMessage): Promise<WebSocketMessage> {
+  const userIds: string[] = message.payload.userIds;
+  const newSubscriptions = userIds.filter((userId) => !ws.subscriptions?.has(userId));
+  if ((ws.subscriptions?.size || 0) + newSubscriptions.length > this.options.maxSubscriptionsPerClient) {
+    return this.createError(ws, 'LIMIT_ERROR', 'Maximum subscriptions reached for client', message.id, {
+      maxSubscriptionsPerClient: this.options.maxSubscriptionsPerClient
+    });
+  }
+
+  const presence = await this.presenceService.subscribe(ws, userIds);
+  return {
+    id: message.id,
+    type: WebSocketMessageType.PRESENCE_SNAPSHOT,
+    timestamp: new Date().toISOString(),
+    payload: { presence },
+    serverTime: Date.now()
+  };
+}
+
+// Cancela la suscripción del cliente a una lista de usuarios
+private handleUnsubscribe(ws: WebSocketClient, message: WebSocketMessage): WebSocketMessage | null {
+  this.presenceService.unsubscribe(ws, message.payload.userIds);
+  return this.createAck(message);
+}
+
+// Une al cliente a una sala y devuelve la lista de miembros
+private handleJoin(ws: WebSocketClient, message: WebSocketMessage): WebSocketMessage {
+  const { roomId, metadata } = message.payload;
+  if (!ws.rooms?.has(roomId) && (ws.rooms?.size || 0) >= this.options.maxRoomsPerClient) {
+    return this.createError(ws, 'LIMIT_ERROR', 'Maximum rooms reached for client', message.id, {
+      maxRoomsPerClient: this.options.maxRoomsPerClient
+    });
+  }
+
+  const members = this.rooms.join(ws, roomId, metadata);
+  return {
+    id: message.id,
+    type: WebSocketMessageType.ROOM_MEMBERS,
+    timestamp: new Date().toISOString(),
+    payload: { roomId, members },
+    serverTime: Date.now()
+  };
+}
+
+// Actualiza los metadatos del cliente en una sala a la que está unido
+private handleRoomMetadata(ws: WebSocketClient, message: WebSocketMessage): WebSocketMessage | null {
+  if (!this.rooms.setMetadata(ws, message.payload.roomId, message.payload.metadata)) {
+    return this.createError(ws, 'NOT_IN_ROOM', `Not a member of room ${message.payload.roomId}`, message.id);
+  }
+  return this.createAck(message);
+}
+
+// Reenvía una señal efímera a una sala del emisor o a una lista de usuarios
+private handleSignal(ws: WebSocketClient, message: WebSocketMessage): WebSocketMessage | null {
+  const { signal, to, roomId, data } = message.payload;
+  if (roomId && !this.rooms.isMember(ws, roomId)) {
+    return this.createError(ws, 'NOT_IN_ROOM', `Not a member of room ${roomId}`, message.id);
+  }
+
+  this.signals.send({
+    name: signal,
+    from: ws.userId!,
+    deviceId: ws.deviceId,
+    target: roomId ? { roomId } : { userIds: to },
+    data
+  });
+  return this.createAck(message);
+}
+
+// Envía un mensaje directo a otro usuario (o lo encola si está desconectado)
+private async handleDirectMessage(ws: WebSocketClient, message: WebSocketMessage): Promise<WebSocketMessage | null> {
+  const messageId = randomUUID();
+  const result = await this.sendToUser(message.payload.to, {
+    type: WebSocketMessageType.DIRECT_MESSAGE,
+    userId: ws.userId,
+    timestamp: new Date().toISOString(),
+    payload: {
+      messageId,
+      from: ws.userId,
+      fromDeviceId: ws.deviceId,
+      data: message.payload.data
+    }
+  });
+  return this.createAck(message, { messageId, ...result });
+}
+
+// Renueva el token de una conexión activa; el usuario debe coincidir con el original
+private async handleReauth(ws: WebSocketClient, message: WebSocketMessage): Promise<WebSocketMessage | null> {
+  try {
+    const auth = await authService.verifyToken(message.payload.token);
+    if (auth.userId !== ws.userId) {
+      this.handleError(ws, 'AUTH_ERROR', 'Token belongs to a different user');
+      return null;
+    }
+
+    ws.claims = auth.claims;
+    ws.tokenExpiresAt = auth.expiresAt;
+    ws.reauthDeadline = undefined;
+    return {
+      id: message.id,
+      type: WebSocketMessageType.AUTH,
+      userId: ws.userId,
+      timestamp: new Date().toISOString(),
+      payload: { expiresAt: auth.expiresAt ? new Date(auth.expiresAt).toISOString() : null },
+      serverTime: Date.now()
+    };
+  } catch (error) {
+    logger.warn('Re-authentication failed', {
+      userId: ws.userId,
+      reason: error instanceof Error ? error.message : String(error)
+    });
+    return this.createError(ws, 'AUTH_ERROR', 'Invalid token', message.id);
+  }
 }
 
 // Maneja la desconexión de un cliente
-private handleDisconnect(ws: WebSocketClient): void {
+private handleDisconnect(ws: WebSocketClient): null {
   // Cierra la conexión del cliente de manera controlada
   ws.close(1000, 'Client requested disconnect');
+  return null;
+}
+
+}
+
+// Límites por tipo de mensaje: los de las opciones sobre los valores por defecto (las señales tienen su propia opción)
+function resolveMessageTypeRateLimits(options: WebSocketServerOptions): Partial<Record<WebSocketMessageType, number>> {
+  return {
+    ...DEFAULT_OPTIONS.messageTypeRateLimits,
+    [WebSocketMessageType.SIGNAL]: options.signalRateLimit,
+    ...options.messageTypeRateLimits
+  };
+}
+
+/**
+ * Comprueba que los valores numéricos de las opciones sean números no negativos (y el latido, positivo).
+ * @throws Error Con la lista de opciones inválidas
+ */
+function validateOptions(options: WebSocketServerOptions): void {
+  const invalid = Object.entries({ ...options, ...options.compression })
+    .filter(([, value]) => typeof value === 'number' && !(Number.isFinite(value) && value >= 0))
+    .map(([key]) => key);
+  Object.entries(options.messageTypeRateLimits).forEach(([type, limit]) => {
+    if (!Number.isFinite(limit) || (limit as number) < 0) {
+      invalid.push(`messageTypeRateLimits.${type}`);
+    }
+  });
+  if (!(options.heartbeatInterval > 0)) {
+    invalid.push('heartbeatInterval');
+  }
+
+  if (invalid.length > 0) {
+    throw new Error(`Invalid WebSocket server options: ${[...new Set(invalid)].join(', ')}`);
+  }
+}
+
+// Presupuesto de un límite expresado por segundo (la ráfaga permitida es un segundo de margen)
+function perSecond(limit: number): RateBudget {
+  return { rate: limit, burst: limit };
 }
 
+// Une los fragmentos de un mensaje entrante en un único Buffer
+function toBuffer(data: WebSocket.RawData): Buffer {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  return Buffer.isBuffer(data) ? data : Buffer.from(data);
 }
@@ -2,17 +2,34 @@ import express from 'express';
 import http from 'http';
 import cors from 'cors';
 import { config } from './config/environment';
-import logger from './services/logger';
+import logger, { setLogLevel } from './services/logger';
+import { ConfigReloader } from './config/config-reloader';
 import { PresenceService } from './core/presence/presence-service';
+import { createPresenceStore } from './core/presence/presence-store-factory';
+import { createClusterBus } from './core/cluster/cluster-bus-factory';
+import { ClusterService } from './core/cluster/cluster-service';
 import { WebSocketServer } from './core/websocket/websocket-service';
+import { createOriginMatcher } from './core/websocket/upgrade-policy';
 import { metricsService } from './services/metrics-service';
+import { createPresenceRouter } from './api/presence-routes';
+import { createHistorySink } from './core/history/history-sink-factory';
+import { PresenceHistoryService } from './core/history/presence-history-service';
+import { createHistoryRouter } from './api/history-routes';
+import { createOfflineQueue } from './core/messaging/offline-queue-factory';
+import { PushService } from './core/push/push-service';
+import { createPushRouter } from './api/push-routes';
+import { createConfigRouter } from './api/config-routes';
 
 async function bootstrap() {
   try {
     const app = express();
     
-    // Middleware para CORS
-    app.use(cors());
+    // Middleware para CORS (los mismos orígenes que se admiten en el upgrade de WebSocket; se actualizan al recargar)
+    let isOriginAllowed = createOriginMatcher(config.websocket.allowedOrigins);
+    app.use(cors({
+      origin: (origin, callback) => callback(null, !origin || isOriginAllowed(origin))
+    }));
+    app.use(express.json());
     app.use(express.static('src/public')); // Sirve archivos estáticos
     
     // Endpoint para métricas
@@ -42,8 +59,56 @@ async function bootstrap() {
 
     // Inicializar servicios
     logger.info('Initializing services...');
-    const presenceService = new PresenceService();
-    const wsServer = new WebSocketServer(server, presenceService);
+    const clusterBus = createClusterBus();
+    const clusterService = clusterBus
+      ? new ClusterService(clusterBus, {
+          nodeId: config.cluster.nodeId,
+          heartbeatInterval: config.cluster.heartbeatInterval,
+          nodeTimeout: config.cluster.nodeTimeout
+        })
+      : undefined;
+    await clusterService?.start();
+
+    const presenceService = new PresenceService(createPresenceStore(), clusterService, {
+      idleTimeout: config.presence.idleTimeout,
+      aggregationPolicy: config.presence.aggregationPolicy,
+      resumeGracePeriod: config.presence.resumeGracePeriod,
+      nodeId: config.cluster.nodeId,
+      storeWatchScope: config.presence.watchScope
+    });
+    const wsServer = new WebSocketServer(server, presenceService, {
+      ...config.websocket,
+      reauthGracePeriod: config.auth.reauthGracePeriod
+    }, clusterService, createOfflineQueue());
+
+    // Historial de cambios de estado (opcional)
+    const historySink = createHistorySink();
+    if (historySink) {
+      const historyService = new PresenceHistoryService(historySink);
+      presenceService.onTransition((transition) => void historyService.record(transition));
+      app.use(createHistoryRouter(historyService, presenceService));
+    }
+
+    // API REST de presencia
+    app.use(createPresenceRouter(presenceService, wsServer));
+
+    // Notificaciones de servicios del backend
+    app.use(createPushRouter(new PushService(wsServer)));
+
+    // Recarga en caliente de la configuración (archivo, SIGHUP o API): nivel de logs, opciones del servidor WebSocket y CORS
+    const configReloader = new ConfigReloader(config);
+    configReloader.onReload((next) => setLogLevel(next.logging.level));
+    configReloader.onReload((next) => {
+      const { restartRequired } = wsServer.updateOptions({ ...next.websocket, reauthGracePeriod: next.auth.reauthGracePeriod });
+      return restartRequired.map((key) => `websocket.${key}`);
+    });
+    configReloader.onReload((next) => {
+      isOriginAllowed = createOriginMatcher(next.websocket.allowedOrigins);
+    });
+    configReloader.start();
+
+    // Configuración efectiva (sin secretos) para administradores
+    app.use(createConfigRouter(configReloader));
 
     // Iniciar servidor
     server.listen(config.server.port, config.server.host, () => {
@@ -51,24 +116,44 @@ async function bootstrap() {
       logger.info('Available endpoints:');
       logger.info('- Health check: /health');
       logger.info('- Metrics: /metrics');
+      logger.info('- Presence API: /presence, /admin/presence');
+      logger.info('- Presence history: /presence/:userId/history, /presence/:userId/online-time');
+      logger.info('- Push: /push');
+      logger.info('- Effective config: /admin/config');
     });
 
-    // Manejo de cierre del servidor de manera controlada
-    process.on('SIGINT', () => {
-      logger.info('Gracefully shutting down...');
-      server.close(() => {
-        logger.info('Server shut down successfully');
-        process.exit(0);
-      });
-    });
+    // Cierre ordenado: deja de aceptar conexiones, avisa a los clientes, libera la presencia
+    // de este nodo y sale del clúster; si no termina a tiempo se fuerza la salida
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+      logger.info(`Received ${signal}, shutting down...`);
 
-    process.on('SIGTERM', () => {
-      logger.info('Received SIGTERM, shutting down...');
-      server.close(() => {
+      const deadline = setTimeout(() => {
+        logger.error(`Shutdown did not finish within ${config.server.shutdownTimeout}ms, exiting`);
+        process.exit(1);
+      }, config.server.shutdownTimeout);
+      deadline.unref();
+
+      try {
+        configReloader.stop();
+        server.close();
+        await wsServer.shutdown();
+        await presenceService.shutdown();
+        await clusterService?.stop();
         logger.info('Server shut down successfully');
         process.exit(0);
-      });
-    });
+      } catch (error) {
+        logger.error('Error during shutdown:', error);
+        process.exit(1);
+      }
+    };
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
 
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -0,0 +1,160 @@
+import { IncomingMessage } from 'http';
+import jwt from 'jsonwebtoken';
+import { initializeFirebase } from '../config/firebase-config';
+import { config } from '../config/environment';
+import logger from './logger';
+import { AuthContext } from '../types/websocket';
+
+// Prefijo de subprotocolo usado para enviar el token desde navegadores (no admiten cabeceras)
+export const BEARER_PROTOCOL_PREFIX = 'bearer.';
+
+/**
+ * Indica si los claims corresponden a un administrador (`admin: true` o `role: 'admin'`).
+ */
+export function isAdminClaims(claims?: Record<string, any>): boolean {
+  return claims?.admin === true || claims?.role === 'admin';
+}
+
+/**
+ * Indica si los claims corresponden a un servicio del backend (`role: 'service'`) o a un administrador.
+ */
+export function isServiceClaims(claims?: Record<string, any>): boolean {
+  return claims?.role === 'service' || isAdminClaims(claims);
+}
+
+export interface AuthServiceOptions {
+  provider: 'firebase' | 'jwt';
+  jwt: {
+    algorithm: 'HS256' | 'RS256';
+    secret: string;
+    publicKey: string;
+    issuer?: string;
+    audience?: string;
+  };
+}
+
+/**
+ * Servicio de autenticación para conexiones WebSocket y HTTP.
+ * - Extrae el token bearer de la cabecera, el subprotocolo o la query.
+ * - Valida tokens de Firebase (ID tokens) o JWT locales (HS256/RS256).
+ */
+export class AuthService {
+  constructor(private options: AuthServiceOptions = config.auth) {}
+
+  /**
+   * Extrae el token de acceso de una solicitud HTTP.
+   * Orden de búsqueda: `Authorization: Bearer`, subprotocolo `bearer.<token>`, query `token`/`access_token`.
+   *
+   * @param req Solicitud HTTP (upgrade o REST)
+   * @returns El token si existe, de lo contrario null
+   */
+  public extractToken(req: IncomingMessage): string | null {
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim() || null;
+    }
+
+    const protocols = req.headers['sec-websocket-protocol'];
+    if (protocols) {
+      const bearer = protocols
+        .split(',')
+        .map((protocol) => protocol.trim())
+        .find((protocol) => protocol.startsWith(BEARER_PROTOCOL_PREFIX));
+      if (bearer) {
+        return bearer.slice(BEARER_PROTOCOL_PREFIX.length) || null;
+      }
+    }
+
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      return url.searchParams.get('token') || url.searchParams.get('access_token');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Valida un token y deriva el usuario y sus claims.
+   *
+   * @param token Token de acceso
+   * @returns El contexto de autenticación
+   * @throws Error Si el token es inválido, está expirado o no identifica a un usuario
+   */
+  public async verifyToken(token: string): Promise<AuthContext> {
+    return this.options.provider === 'firebase'
+      ? this.verifyFirebaseToken(token)
+      : this.verifyJwt(token);
+  }
+
+  /**
+   * Valida un ID token de Firebase con firebase-admin.
+   */
+  private async verifyFirebaseToken(token: string): Promise<AuthContext> {
+    const decoded = await initializeFirebase().auth().verifyIdToken(token);
+    return {
+      userId: decoded.uid,
+      claims: decoded,
+      expiresAt: decoded.exp * 1000,
+      provider: 'firebase',
+    };
+  }
+
+  /**
+   * Valida un JWT firmado localmente (útil para tests y despliegues sin Firebase).
+   * El userId se toma de `sub`, `uid` o `user_id`.
+   */
+  private async verifyJwt(token: string): Promise<AuthContext> {
+    const { algorithm, secret, publicKey, issuer, audience } = this.options.jwt;
+    const key = algorithm === 'HS256' ? secret : publicKey;
+    if (!key) {
+      throw new Error(`No key configured for ${algorithm} tokens`);
+    }
+
+    const claims = jwt.verify(token, key, {
+      algorithms: [algorithm],
+      issuer,
+      audience,
+    });
+
+    if (typeof claims === 'string') {
+      throw new Error('Token payload must be a JSON object');
+    }
+
+    const userId = claims.sub || claims.uid || claims.user_id;
+    if (!userId || typeof userId !== 'string') {
+      throw new Error('Token does not identify a user');
+    }
+
+    return {
+      userId,
+      claims,
+      expiresAt: claims.exp ? claims.exp * 1000 : undefined,
+      provider: 'jwt',
+    };
+  }
+
+  /**
+   * Extrae y valida el token de una solicitud.
+   *
+   * @returns El contexto de autenticación o null si no hay token o es inválido
+   */
+  public async authenticateRequest(req: IncomingMessage): Promise<AuthContext | null> {
+    const token = this.extractToken(req);
+    if (!token) {
+      return null;
+    }
+
+    try {
+      return await this.verifyToken(token);
+    } catch (error) {
+      logger.warn('Token verification failed', {
+        reason: error instanceof Error ? error.message : String(error),
+        remoteAddress: req.socket?.remoteAddress,
+      });
+      return null;
+    }
+  }
+}
+
+// Instancia del servicio de autenticación
+export const authService = new AuthService();
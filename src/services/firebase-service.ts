@@ -2,8 +2,16 @@ import * as admin from 'firebase-admin';
 import { initializeFirebase } from '../config/firebase-config';
 import logger from './logger';
 import { PresenceData, UserPresenceStatus } from '../types/websocket';
+import { PresenceStore, nextPresenceVersion } from '../core/presence/presence-store';
 
-export class FirebaseService {
+// Máximo de operaciones que admite un lote de escritura de Firestore
+const FIRESTORE_BATCH_LIMIT = 500;
+
+/**
+ * Adaptador de almacenamiento de presencia sobre Firestore.
+ * Firebase se inicializa al construir la instancia, no al importar el módulo.
+ */
+export class FirebaseService implements PresenceStore {
   private db: admin.firestore.Firestore;
 
   constructor() {
@@ -46,7 +54,7 @@ export class FirebaseService {
       // Realiza una actualización con merge para no sobrescribir los datos existentes
       await presenceRef.set(
         {
-          ...presenceData,
+          ...withoutUndefined(presenceData),
           lastUpdated: admin.firestore.FieldValue.serverTimestamp(),  // Marca el momento de actualización
         },
         { merge: true }
@@ -59,6 +67,36 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Actualiza la presencia de varios usuarios con escrituras en lote (máximo 500 por lote en Firestore).
+   *
+   * @param items Datos de presencia de cada usuario
+   * @throws Error Si falla alguno de los lotes
+   */
+  async updatePresenceBatch(items: PresenceData[]): Promise<void> {
+    try {
+      for (let i = 0; i < items.length; i += FIRESTORE_BATCH_LIMIT) {
+        const batch = this.db.batch();
+        items.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((presenceData) => {
+          batch.set(
+            this.db.collection('presence').doc(presenceData.userId),
+            {
+              ...withoutUndefined(presenceData),
+              lastUpdated: admin.firestore.FieldValue.serverTimestamp(),  // Marca el momento de actualización
+            },
+            { merge: true }
+          );
+        });
+        await batch.commit();
+      }
+
+      logger.debug(`Presence for ${items.length} users updated in batch.`);
+    } catch (error) {
+      logger.error('Error updating presence batch in Firebase:', error);
+      throw this.handleError(error);  // Propaga el error con manejo adecuado
+    }
+  }
+
   /**
    * Recupera los datos de presencia de un usuario específico.
    * 
@@ -118,17 +156,42 @@ export class FirebaseService {
     }
   }
 
+  /**
+   * Configura un listener sobre el documento de presencia de un solo usuario.
+   *
+   * @param userId ID del usuario a escuchar
+   * @param callback Función que se ejecuta con cada versión del documento
+   * @returns Una función para cancelar la suscripción
+   */
+  watchUserPresence(userId: string, callback: (presenceData: PresenceData) => void): () => void {
+    return this.db.collection('presence').doc(userId).onSnapshot(
+      (doc) => {
+        if (doc.exists) {
+          callback(doc.data() as PresenceData);
+        }
+      },
+      (error) => {
+        logger.error(`Error in presence listener for user ${userId}:`, error);
+      }
+    );
+  }
+
   /**
    * Limpia las entradas de presencia obsoletas, marcando a los usuarios como offline.
-   * 
+   *
+   * @param nodeId Nodo que hace la limpieza (origen de las escrituras)
+   * @param ownOnly Limitar la limpieza a las entradas que escribió ese nodo
    * @throws Error Si ocurre un error al limpiar los datos de presencia
    */
-  async cleanupOfflinePresence(): Promise<void> {
+  async cleanupOfflinePresence(nodeId: string, ownOnly: boolean): Promise<void> {
     try {
       logger.info('Cleaning up stale online presence entries');
 
-      const presenceRef = this.db.collection('presence');
-      const snapshot = await presenceRef.where('status', '==', UserPresenceStatus.ONLINE).get();
+      let query = this.db.collection('presence').where('status', '==', UserPresenceStatus.ONLINE);
+      if (ownOnly) {
+        query = query.where('originNodeId', '==', nodeId);
+      }
+      const snapshot = await query.get();
 
       // Si no hay entradas obsoletas, se termina el proceso
       if (snapshot.empty) {
@@ -136,18 +199,23 @@ export class FirebaseService {
         return;
       }
 
-      const batch = this.db.batch();  // Usar un batch para actualizar múltiples documentos
-
-      // Actualiza todas las entradas obsoletas a offline
-      snapshot.docs.forEach((doc) => {
-        batch.update(doc.ref, {
-          status: UserPresenceStatus.OFFLINE,
-          lastSeen: admin.firestore.FieldValue.serverTimestamp(),  // Marca la hora de la última vista
+      // Actualiza las entradas obsoletas a offline, en lotes de escritura
+      for (let i = 0; i < snapshot.docs.length; i += FIRESTORE_BATCH_LIMIT) {
+        const batch = this.db.batch();
+        snapshot.docs.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((doc) => {
+          batch.update(doc.ref, {
+            status: UserPresenceStatus.OFFLINE,
+            lastSeen: new Date().toISOString(),
+            devices: [],
+            originNodeId: nodeId,
+            version: nextPresenceVersion(doc.data() as PresenceData),
+            lastUpdated: admin.firestore.FieldValue.serverTimestamp(),  // Marca el momento de actualización
+          });
         });
-      });
+        await batch.commit();  // Ejecuta el lote de actualizaciones
+      }
 
-      await batch.commit();  // Ejecuta el batch de actualizaciones
-      logger.info('Stale online presence entries marked as offline successfully');
+      logger.info(`${snapshot.size} stale online presence entries marked as offline successfully`);
     } catch (error) {
       logger.error('Error cleaning up stale online presence:', error);
       throw this.handleError(error);  // Propaga el error con manejo adecuado
@@ -155,4 +223,20 @@ export class FirebaseService {
   }
 }
 
-export const firebaseService = new FirebaseService();
+/**
+ * Copia los datos sin los campos `undefined` (también en objetos y listas anidados):
+ * Firestore rechaza la escritura completa si encuentra alguno.
+ */
+function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => withoutUndefined(item)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key, withoutUndefined(item)])
+    ) as T;
+  }
+  return value;
+}
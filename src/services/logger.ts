@@ -1,21 +1,35 @@
 import pino from 'pino';
+import { config } from '../config/environment';
 
-// Configuración de transporte para los logs (utiliza pino-pretty para una salida más legible)
-const transport = pino.transport({
-  target: 'pino-pretty',
-  options: {
-    colorize: true,  // Colores en los mensajes de log
-    levelFirst: true, // Muestra el nivel del log primero
-    translateTime: "UTC:yyyy-mm-dd'T'HH:MM:ss'Z'", // Formato de fecha en UTC
-    ignore: 'pid,hostname', // Ignorar PID y hostname en los logs
+// Destinos de los logs: consola (con pino-pretty para una salida más legible) y, si se pide, un archivo en JSON
+const targets: pino.TransportTargetOptions[] = [
+  {
+    target: 'pino-pretty',
+    level: 'trace', // El nivel efectivo lo decide el logger, para poder cambiarlo en caliente
+    options: {
+      colorize: true,  // Colores en los mensajes de log
+      levelFirst: true, // Muestra el nivel del log primero
+      translateTime: "UTC:yyyy-mm-dd'T'HH:MM:ss'Z'", // Formato de fecha en UTC
+      ignore: 'pid,hostname', // Ignorar PID y hostname en los logs
+    },
   },
-});
+];
+
+if (config.logging.toFile) {
+  targets.push({
+    target: 'pino/file',
+    level: 'trace',
+    options: { destination: config.logging.filePath, mkdir: true }, // Crea el directorio si no existe
+  });
+}
 
-// Inicialización del logger con el nivel adecuado según el entorno
+const transport = pino.transport({ targets });
+
+// Inicialización del logger con el nivel configurado (`LOG_LEVEL`)
 const logger = pino(
   {
     name: 'websocket-presence',  // Nombre del servicio o aplicación
-    level: process.env.NODE_ENV === 'development' ? 'debug' : 'info',  // Nivel de log según el entorno
+    level: config.logging.level,  // Nivel de log configurado
     serializers: {
       err: pino.stdSerializers.err, // Serializador para errores
       error: pino.stdSerializers.err, // Alias para serializar errores
@@ -24,6 +38,13 @@ const logger = pino(
   transport
 );
 
+/**
+ * Cambia el nivel de los logs sin reiniciar (p. ej. al recargar la configuración).
+ */
+export function setLogLevel(level: string): void {
+  logger.level = level;
+}
+
 // Interfaz personalizada para el logger
 export interface Logger {
   debug(message: string, ...args: any[]): void;
@@ -10,12 +10,19 @@ export class MetricsService {
   private readonly wsConnectionsTotal: client.Counter<string>;
   private readonly wsMessagesTotal: client.Counter<string>;
   private readonly wsErrorsTotal: client.Counter<string>;
+  private readonly wsRateLimitedTotal: client.Counter<string>;
+  private readonly wsBackpressureTotal: client.Counter<string>;
+  private readonly wsPayloadBytesTotal: client.Counter<string>;
+  private readonly wsWireBytesTotal: client.Counter<string>;
+  private readonly configReloadsTotal: client.Counter<string>;
+  private readonly wsUpgradeRejectionsTotal: client.Counter<string>;
 
   // Medidores de estado actual del servidor WebSocket
   private readonly wsConnectionsGauge: client.Gauge<string>;
   private readonly wsClientsGauge: client.Gauge<string>;
   private readonly wsMemoryUsageGauge: client.Gauge<string>;
   private readonly wsUptime: client.Gauge<string>;
+  private readonly wsSlowConsumersGauge: client.Gauge<string>;
 
   // Métricas de rendimiento de WebSocket
   private readonly wsLatencyHistogram: client.Histogram<string>;
@@ -56,6 +63,48 @@ export class MetricsService {
       registers: [this.registry]
     });
 
+    this.wsRateLimitedTotal = new client.Counter({
+      name: 'ws_rate_limited_total',
+      help: 'Total number of requests throttled by a rate limit',
+      labelNames: ['scope', 'type', 'action'],
+      registers: [this.registry]
+    });
+
+    this.wsBackpressureTotal = new client.Counter({
+      name: 'ws_backpressure_total',
+      help: 'Outbound messages coalesced, dropped or that closed a slow consumer',
+      labelNames: ['action', 'type'],
+      registers: [this.registry]
+    });
+
+    this.wsPayloadBytesTotal = new client.Counter({
+      name: 'ws_payload_bytes_total',
+      help: 'Bytes of encoded messages before permessage-deflate compression',
+      labelNames: ['direction', 'compression'],
+      registers: [this.registry]
+    });
+
+    this.wsWireBytesTotal = new client.Counter({
+      name: 'ws_wire_bytes_total',
+      help: 'Bytes read from or written to the TCP sockets after the handshake (frame headers included)',
+      labelNames: ['direction', 'compression'],
+      registers: [this.registry]
+    });
+
+    this.wsUpgradeRejectionsTotal = new client.Counter({
+      name: 'ws_upgrade_rejections_total',
+      help: 'WebSocket upgrades rejected at the HTTP level by reason and status code',
+      labelNames: ['reason', 'status_code'],
+      registers: [this.registry]
+    });
+
+    this.configReloadsTotal = new client.Counter({
+      name: 'config_reloads_total',
+      help: 'Configuration reloads by trigger source and outcome',
+      labelNames: ['source', 'status'],
+      registers: [this.registry]
+    });
+
     // Medidores de WebSocket (estado actual)
     this.wsConnectionsGauge = new client.Gauge({
       name: 'ws_connections_current',
@@ -101,6 +150,12 @@ export class MetricsService {
       registers: [this.registry]
     });
 
+    this.wsSlowConsumersGauge = new client.Gauge({
+      name: 'ws_slow_consumers',
+      help: 'Sockets whose outbound buffer is over the backpressure threshold',
+      registers: [this.registry]
+    });
+
     this.wsReconnectionsHistogram = new client.Histogram({
       name: 'ws_reconnections_count',
       help: 'Number of reconnection attempts',
@@ -170,6 +225,41 @@ export class MetricsService {
     logger.error(`Error metric incremented: ${type}, ${severity}, ${source}`);
   }
 
+  // Registra una decisión de limitación de tasa (ámbito del límite, tipo de mensaje y penalización aplicada)
+  public incrementRateLimited(scope: string, type: string, action: string): void {
+    this.wsRateLimitedTotal.inc({ scope, type, action });
+  }
+
+  // Registra un mensaje afectado por la contrapresión (agrupado, descartado o que provocó un cierre)
+  public incrementBackpressure(action: 'coalesced' | 'dropped' | 'closed', type: string): void {
+    this.wsBackpressureTotal.inc({ action, type });
+  }
+
+  // Suma bytes de mensajes sin comprimir; comparados con `addWireBytes` dan la tasa de compresión
+  public addPayloadBytes(direction: 'inbound' | 'outbound', compression: string, bytes: number): void {
+    this.wsPayloadBytesTotal.inc({ direction, compression }, bytes);
+  }
+
+  // Suma bytes transmitidos por los sockets TCP (ya comprimidos)
+  public addWireBytes(direction: 'inbound' | 'outbound', compression: string, bytes: number): void {
+    this.wsWireBytesTotal.inc({ direction, compression }, bytes);
+  }
+
+  // Registra un upgrade rechazado antes de abrir el WebSocket
+  public incrementUpgradeRejections(reason: string, statusCode: number): void {
+    this.wsUpgradeRejectionsTotal.inc({ reason, status_code: String(statusCode) });
+  }
+
+  // Registra una recarga de la configuración (aplicada, inválida o revertida)
+  public incrementConfigReloads(source: string, status: 'applied' | 'invalid' | 'rolled_back'): void {
+    this.configReloadsTotal.inc({ source, status });
+  }
+
+  // Actualiza el número de sockets con el buffer de salida por encima del umbral
+  public changeSlowConsumers(delta: number): void {
+    this.wsSlowConsumersGauge.inc(delta);
+  }
+
   // Métodos para manejar clientes
   public updateClients(status: string, clientType: string, authStatus: string, count: number): void {
     // Actualiza el número de clientes
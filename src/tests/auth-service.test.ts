@@ -0,0 +1,114 @@
+import { generateKeyPairSync } from 'crypto';
+import { IncomingMessage } from 'http';
+import jwt from 'jsonwebtoken';
+import { AuthService, AuthServiceOptions, isAdminClaims, isServiceClaims } from '../services/auth-service';
+
+// El logger abre un transporte que no hace falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+
+const SECRET = 'test-secret';
+
+function createAuthService(jwtOptions: Partial<AuthServiceOptions['jwt']> = {}): AuthService {
+  return new AuthService({ provider: 'jwt', jwt: { algorithm: 'HS256', secret: SECRET, publicKey: '', ...jwtOptions } });
+}
+
+function request(url: string, headers: Record<string, string> = {}): IncomingMessage {
+  return { url, headers: { host: 'localhost', ...headers }, socket: {} } as unknown as IncomingMessage;
+}
+
+describe('AuthService', () => {
+  describe('extractToken', () => {
+    const auth = createAuthService();
+
+    it('prefers the Authorization header, then the bearer subprotocol, then the query', () => {
+      const req = request('/?token=from-query', {
+        authorization: 'Bearer from-header',
+        'sec-websocket-protocol': 'presence.json.v1, bearer.from-protocol'
+      });
+
+      expect(auth.extractToken(req)).toBe('from-header');
+      expect(auth.extractToken(request('/?token=from-query', { 'sec-websocket-protocol': 'bearer.from-protocol' }))).toBe('from-protocol');
+      expect(auth.extractToken(request('/?access_token=from-query'))).toBe('from-query');
+    });
+
+    it('ignores the userId query parameter', () => {
+      expect(auth.extractToken(request('/?userId=user123'))).toBeNull();
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('takes the user from sub, uid or user_id', async () => {
+      const auth = createAuthService();
+
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123' }, SECRET))).resolves.toMatchObject({ userId: 'user123', provider: 'jwt' });
+      await expect(auth.verifyToken(jwt.sign({ uid: 'user456' }, SECRET))).resolves.toMatchObject({ userId: 'user456' });
+      await expect(auth.verifyToken(jwt.sign({ user_id: 'user789' }, SECRET))).resolves.toMatchObject({ userId: 'user789' });
+    });
+
+    it('returns the expiration in milliseconds', async () => {
+      const token = jwt.sign({ sub: 'user123', exp: 2000000000 }, SECRET);
+
+      await expect(createAuthService().verifyToken(token)).resolves.toMatchObject({ expiresAt: 2000000000 * 1000 });
+    });
+
+    it('rejects tokens without a user', async () => {
+      await expect(createAuthService().verifyToken(jwt.sign({ role: 'admin' }, SECRET))).rejects.toThrow('Token does not identify a user');
+    });
+
+    it('rejects expired tokens and tokens signed with another secret', async () => {
+      const auth = createAuthService();
+
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123', exp: 1 }, SECRET))).rejects.toThrow('jwt expired');
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123' }, 'other-secret'))).rejects.toThrow('invalid signature');
+    });
+
+    it('checks the issuer and audience when configured', async () => {
+      const auth = createAuthService({ issuer: 'https://auth.example.com', audience: 'presence' });
+
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123' }, SECRET, { issuer: 'https://auth.example.com', audience: 'presence' })))
+        .resolves.toMatchObject({ userId: 'user123' });
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123' }, SECRET, { issuer: 'https://evil.example.com', audience: 'presence' })))
+        .rejects.toThrow('jwt issuer invalid');
+    });
+
+    it('verifies RS256 tokens with the public key and never accepts HS256 ones', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+      const auth = createAuthService({ algorithm: 'RS256', secret: '', publicKey: publicPem });
+
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123' }, privateKey, { algorithm: 'RS256' }))).resolves.toMatchObject({ userId: 'user123' });
+      await expect(auth.verifyToken(jwt.sign({ sub: 'user123' }, SECRET))).rejects.toThrow('invalid algorithm');
+    });
+
+    it('fails without a key for the configured algorithm', async () => {
+      await expect(createAuthService({ secret: '' }).verifyToken('token')).rejects.toThrow('No key configured for HS256 tokens');
+    });
+  });
+
+  describe('authenticateRequest', () => {
+    it('returns null for missing or invalid tokens', async () => {
+      const auth = createAuthService();
+
+      await expect(auth.authenticateRequest(request('/'))).resolves.toBeNull();
+      await expect(auth.authenticateRequest(request('/?token=garbage'))).resolves.toBeNull();
+      await expect(auth.authenticateRequest(request(`/?token=${jwt.sign({ sub: 'user123' }, SECRET)}`))).resolves.toMatchObject({ userId: 'user123' });
+    });
+  });
+});
+
+describe('claims', () => {
+  it('recognizes admins by the admin flag or role', () => {
+    expect(isAdminClaims({ admin: true })).toBe(true);
+    expect(isAdminClaims({ role: 'admin' })).toBe(true);
+    expect(isAdminClaims({ admin: 'true' })).toBe(false);
+  });
+
+  it('treats admins as services too', () => {
+    expect(isServiceClaims({ role: 'service' })).toBe(true);
+    expect(isServiceClaims({ admin: true })).toBe(true);
+    expect(isServiceClaims({ role: 'user' })).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { BufferedPresenceStore, BufferedPresenceStoreOptions } from '../core/presence/buffered-presence-store';
+import { PresenceStore } from '../core/presence/presence-store';
+import { PresenceData, UserPresenceStatus } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  metricsService: {
+    observeSystemMetrics: jest.fn(),
+    observeLatency: jest.fn(),
+    incrementErrors: jest.fn(),
+    incrementPresenceUpdates: jest.fn()
+  }
+}));
+
+const OPTIONS: BufferedPresenceStoreOptions = { window: 250, batchSize: 3, maxRetries: 2, retryBaseDelay: 500 };
+
+function presence(userId: string, status: UserPresenceStatus, extra: Partial<PresenceData> = {}): PresenceData {
+  return { userId, status, lastSeen: '2024-12-18T10:00:00.000Z', ...extra };
+}
+
+function createStore(): PresenceStore & { updatePresenceBatch: jest.Mock } {
+  return {
+    updatePresence: jest.fn(async () => undefined),
+    updatePresenceBatch: jest.fn(async () => undefined),
+    getPresence: jest.fn(async () => null),
+    watchPresenceChanges: jest.fn(async () => () => undefined),
+    watchUserPresence: jest.fn(() => () => undefined),
+    cleanupOfflinePresence: jest.fn(async () => undefined)
+  };
+}
+
+describe('BufferedPresenceStore', () => {
+  let store: ReturnType<typeof createStore>;
+  let buffered: BufferedPresenceStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-12-18T10:00:00.000Z') });
+    store = createStore();
+    buffered = new BufferedPresenceStore(store, OPTIONS);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('coalesces the changes of a user within the window into one write', async () => {
+    const first = buffered.updatePresence(presence('user123', UserPresenceStatus.ONLINE, { metadata: { note: 'Hi' } }));
+    const second = buffered.updatePresence(presence('user123', UserPresenceStatus.AWAY));
+
+    await jest.advanceTimersByTimeAsync(249);
+    expect(store.updatePresenceBatch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(Promise.all([first, second])).resolves.toEqual([undefined, undefined]);
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(1);
+    expect(store.updatePresenceBatch).toHaveBeenCalledWith([
+      presence('user123', UserPresenceStatus.AWAY, { metadata: { note: 'Hi' } })
+    ]);
+  });
+
+  it('writes at once when the buffer reaches the batch size', async () => {
+    const writes = ['a', 'b', 'c'].map((userId) => buffered.updatePresence(presence(userId, UserPresenceStatus.ONLINE)));
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    await Promise.all(writes);
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(1);
+    expect(store.updatePresenceBatch.mock.calls[0][0]).toHaveLength(3);
+  });
+
+  it('splits the buffer into batches of at most the batch size', async () => {
+    buffered = new BufferedPresenceStore(store, { ...OPTIONS, batchSize: 2 });
+    const writes = ['a', 'b', 'c', 'd', 'e'].map((userId) => buffered.updatePresence(presence(userId, UserPresenceStatus.ONLINE)));
+
+    await buffered.flush();
+    await Promise.all(writes);
+
+    expect(store.updatePresenceBatch.mock.calls.map(([batch]) => batch.map((item: PresenceData) => item.userId))).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e']
+    ]);
+  });
+
+  it('serves pending changes to reads before they are written', async () => {
+    void buffered.updatePresence(presence('user123', UserPresenceStatus.BUSY));
+
+    await expect(buffered.getPresence('user123')).resolves.toMatchObject({ status: UserPresenceStatus.BUSY });
+    expect(store.getPresence).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed batch with exponential backoff', async () => {
+    store.updatePresenceBatch.mockRejectedValueOnce(new Error('unavailable')).mockRejectedValueOnce(new Error('unavailable'));
+    const write = buffered.updatePresence(presence('user123', UserPresenceStatus.ONLINE));
+
+    await jest.advanceTimersByTimeAsync(250);
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(write).resolves.toBeUndefined();
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it('writes the newer change of a user that changed while its batch was retrying', async () => {
+    store.updatePresenceBatch.mockRejectedValueOnce(new Error('unavailable'));
+    const first = buffered.updatePresence(presence('user123', UserPresenceStatus.ONLINE));
+    await jest.advanceTimersByTimeAsync(250);
+
+    const second = buffered.updatePresence(presence('user123', UserPresenceStatus.AWAY));
+    await jest.advanceTimersByTimeAsync(500);
+
+    await expect(Promise.all([first, second])).resolves.toEqual([undefined, undefined]);
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(2);
+    expect(store.updatePresenceBatch).toHaveBeenLastCalledWith([presence('user123', UserPresenceStatus.AWAY)]);
+  });
+
+  it('rejects the pending writes once the retries are exhausted', async () => {
+    store.updatePresenceBatch.mockRejectedValue(new Error('unavailable'));
+    const write = buffered.updatePresence(presence('user123', UserPresenceStatus.ONLINE));
+    const rejected = expect(write).rejects.toThrow('unavailable');
+
+    await jest.advanceTimersByTimeAsync(250 + 500 + 1000);
+
+    await rejected;
+    expect(store.updatePresenceBatch).toHaveBeenCalledTimes(OPTIONS.maxRetries + 1);
+  });
+});
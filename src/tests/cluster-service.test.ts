@@ -0,0 +1,74 @@
+import { EventEmitter } from 'events';
+import { ClusterService } from '../core/cluster/cluster-service';
+import { InMemoryClusterBus } from '../core/cluster/memory-cluster-bus';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  metricsService: { incrementErrors: jest.fn(), observeSystemMetrics: jest.fn() }
+}));
+
+// Espera a que el bus entregue los eventos publicados (se entregan con `setImmediate`)
+const flushBus = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ClusterService', () => {
+  let nodes: ClusterService[];
+
+  beforeEach(async () => {
+    const channel = new EventEmitter();
+    nodes = ['node-a', 'node-b', 'node-c'].map(
+      (nodeId) => new ClusterService(new InMemoryClusterBus(channel), { nodeId, heartbeatInterval: 60000, nodeTimeout: 180000 })
+    );
+    await Promise.all(nodes.map((node) => node.start()));
+    await flushBus();
+  });
+
+  afterEach(async () => {
+    await Promise.all(nodes.map((node) => node.stop()));
+  });
+
+  it('counts the connections of a user on the other nodes', async () => {
+    const [a, b, c] = nodes;
+    b.setLocalConnections('user123', 2);
+    c.setLocalConnections('user123', 1);
+    await flushBus();
+
+    expect(a.getRemoteConnectionCount('user123')).toBe(3);
+    expect(b.getRemoteConnectionCount('user123')).toBe(1);
+  });
+
+  it('counts the other live nodes', () => {
+    expect(nodes.map((node) => node.getRemoteNodeCount())).toEqual([2, 2, 2]);
+  });
+
+  it('delivers kicks only to the nodes where the user is connected', async () => {
+    const [a, b, c] = nodes;
+    const kickedOnB = jest.fn();
+    const kickedOnC = jest.fn();
+    b.onKick(kickedOnB);
+    c.onKick(kickedOnC);
+    b.setLocalConnections('user123', 1);
+    await flushBus();
+
+    a.publishKick('user123', 'Disconnected by administrator');
+    await flushBus();
+
+    expect(kickedOnB).toHaveBeenCalledWith('user123', 'Disconnected by administrator');
+    expect(kickedOnC).not.toHaveBeenCalled();
+  });
+
+  it('does not deliver its own kicks back to the sender', async () => {
+    const [a] = nodes;
+    const kickedOnA = jest.fn();
+    a.onKick(kickedOnA);
+    a.setLocalConnections('user123', 1);
+
+    a.publishKick('user123', 'Disconnected by administrator');
+    await flushBus();
+
+    expect(kickedOnA).not.toHaveBeenCalled();
+  });
+});
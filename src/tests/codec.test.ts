@@ -0,0 +1,51 @@
+import { CODECS, EncodedMessage, getCodecForProtocol } from '../core/websocket/codec';
+import { UserPresenceStatus, WebSocketMessage, WebSocketMessageType } from '../types/websocket';
+
+const message: WebSocketMessage = {
+  type: WebSocketMessageType.PRESENCE_UPDATE,
+  timestamp: '2024-12-18T10:00:00.000Z',
+  payload: { userId: 'user123', status: UserPresenceStatus.AWAY, metadata: undefined }
+};
+
+describe('getCodecForProtocol', () => {
+  it('selects the codec of the negotiated subprotocol', () => {
+    expect(getCodecForProtocol('presence.msgpack.v1').encoding).toBe('msgpack');
+    expect(getCodecForProtocol('presence.json.v1').encoding).toBe('json');
+  });
+
+  it('falls back to JSON without a known subprotocol', () => {
+    expect(getCodecForProtocol('').encoding).toBe('json');
+    expect(getCodecForProtocol('presence.xml.v1').encoding).toBe('json');
+  });
+});
+
+describe('codecs', () => {
+  it.each(Object.values(CODECS))('round-trips a message with $name without undefined fields', (codec) => {
+    const data = codec.encode(message);
+
+    expect(codec.decode(Buffer.from(data))).toEqual({
+      type: 'presence_update',
+      timestamp: '2024-12-18T10:00:00.000Z',
+      payload: { userId: 'user123', status: 'away' }
+    });
+  });
+
+  it('encodes MessagePack as binary and JSON as text', () => {
+    expect(typeof CODECS.json.encode(message)).toBe('string');
+    expect(CODECS.msgpack.encode(message)).toBeInstanceOf(Uint8Array);
+  });
+});
+
+describe('EncodedMessage', () => {
+  it('encodes once per encoding', () => {
+    const encode = jest.spyOn(CODECS.msgpack, 'encode');
+    const encoded = new EncodedMessage(message);
+
+    const first = encoded.get(CODECS.msgpack);
+    expect(encoded.get(CODECS.msgpack)).toBe(first);
+    expect(encode).toHaveBeenCalledTimes(1);
+    expect(encoded.get(CODECS.json)).toBe(JSON.stringify(message));
+
+    encode.mockRestore();
+  });
+});
@@ -0,0 +1,89 @@
+import { ConfigReloader } from '../config/config-reloader';
+import { AppConfig, reloadConfig } from '../config/environment';
+import { metricsService } from '../services/metrics-service';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  metricsService: { incrementConfigReloads: jest.fn() }
+}));
+
+describe('ConfigReloader', () => {
+  const originalEnv = process.env;
+  let reloader: ConfigReloader;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    reloader = new ConfigReloader(reloadConfig());
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('applies the hot reload keys through the listeners', () => {
+    const listener = jest.fn();
+    reloader.onReload(listener);
+    Object.assign(process.env, { WS_MESSAGE_RATE_LIMIT: '5', LOG_LEVEL: 'warn' });
+
+    expect(reloader.reload('api')).toEqual({ applied: true, restartRequired: [] });
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ logging: expect.objectContaining({ level: 'warn' }) }));
+    expect(reloader.config.websocket.messageRateLimit).toBe(5);
+    expect(metricsService.incrementConfigReloads).toHaveBeenCalledWith('api', 'applied');
+  });
+
+  it('keeps the other keys until a restart and reports them', () => {
+    const port = reloader.config.server.port;
+    process.env.PORT = String(port + 1);
+
+    expect(reloader.reload('signal')).toEqual({ applied: true, restartRequired: ['server.port'] });
+    expect(reloader.config.server.port).toBe(port);
+  });
+
+  it('keeps the keys a listener could not apply', () => {
+    reloader.onReload(() => ['websocket.typingTimeout']);
+    const typingTimeout = reloader.config.websocket.typingTimeout;
+    Object.assign(process.env, { WS_TYPING_TIMEOUT: String(typingTimeout + 1000), WS_MESSAGE_RATE_LIMIT: '5' });
+
+    expect(reloader.reload('file')).toEqual({ applied: true, restartRequired: ['websocket.typingTimeout'] });
+    expect(reloader.config.websocket).toMatchObject({ typingTimeout, messageRateLimit: 5 });
+  });
+
+  it('ignores an invalid configuration without calling the listeners', () => {
+    const listener = jest.fn();
+    reloader.onReload(listener);
+    const current = reloader.config;
+    process.env.WS_MESSAGE_RATE_LIMIT = '-1';
+
+    expect(reloader.reload('file')).toEqual({ applied: false, error: expect.stringContaining('WS_MESSAGE_RATE_LIMIT') });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(reloader.config).toBe(current);
+    expect(metricsService.incrementConfigReloads).toHaveBeenCalledWith('file', 'invalid');
+  });
+
+  it('rolls every listener back when one rejects the configuration', () => {
+    const applied: AppConfig[] = [];
+    reloader.onReload((config) => {
+      applied.push(config);
+    });
+    reloader.onReload((config) => {
+      if (config.websocket.messageRateLimit === 5) {
+        throw new Error('Rate limit too low');
+      }
+    });
+    const current = reloader.config;
+    process.env.WS_MESSAGE_RATE_LIMIT = '5';
+
+    expect(reloader.reload('api')).toEqual({ applied: false, error: 'Rate limit too low' });
+
+    expect(applied.map((config) => config.websocket.messageRateLimit)).toEqual([5, current.websocket.messageRateLimit]);
+    expect(reloader.config).toBe(current);
+    expect(metricsService.incrementConfigReloads).toHaveBeenCalledWith('api', 'rolled_back');
+  });
+});
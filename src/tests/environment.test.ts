@@ -0,0 +1,49 @@
+import { reloadConfig } from '../config/environment';
+
+describe('reloadConfig', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('reads numeric settings as integers', () => {
+    Object.assign(process.env, { WS_MAX_CONNECTIONS_PER_USER: '3', PRESENCE_WRITE_WINDOW: '0', MESSAGE_QUEUE_TTL: '60000' });
+
+    const config = reloadConfig();
+
+    expect(config.websocket.maxConnectionsPerUser).toBe(3);
+    expect(config.presence.writeBuffer.window).toBe(0);
+    expect(config.messaging.queueTtl).toBe(60000);
+  });
+
+  it.each([
+    ['SHUTDOWN_TIMEOUT', '10s'],
+    ['WS_MAX_CONNECTIONS_PER_USER', 'five'],
+    ['WS_MAX_CONNECTIONS_PER_USER', '0'],
+    ['WS_HEARTBEAT_INTERVAL', '1.5'],
+    ['WS_MESSAGE_RATE_LIMIT', '-1'],
+    ['PRESENCE_IDLE_TIMEOUT', ''],
+    ['PRESENCE_WRITE_BATCH_SIZE', '0'],
+    ['CLUSTER_NODE_TIMEOUT', 'NaN'],
+    ['MESSAGE_QUEUE_MAX_PER_USER', '10O'],
+    ['CONFIG_WATCH_INTERVAL', '2 s']
+  ])('rejects %s=%p', (name, value) => {
+    process.env[name] = value;
+
+    expect(() => reloadConfig()).toThrow(`${name} must be an integer of at least`);
+  });
+
+  it.each([['WS_COMPRESSION_WINDOW_BITS', '7'], ['WS_COMPRESSION_WINDOW_BITS', '16'], ['WS_COMPRESSION_MEM_LEVEL', '10']])(
+    'rejects %s=%p outside its range',
+    (name, value) => {
+      process.env[name] = value;
+
+      expect(() => reloadConfig()).toThrow(`${name} must be an integer between`);
+    }
+  );
+});
@@ -1,5 +1,5 @@
 // src/tests/firebase-test.ts
-import { firebaseService } from '../services/firebase-service';
+import { FirebaseService } from '../services/firebase-service';
 import logger from '../services/logger';
 import { UserPresenceStatus } from '../types/websocket';
 
@@ -7,6 +7,7 @@ import { UserPresenceStatus } from '../types/websocket';
 async function testFirebaseConnection() {
   try {
     logger.info('Starting Firebase connection test...');
+    const firebaseService = new FirebaseService();
 
     // Crear datos de prueba para la presencia del usuario
     const testPresenceData = {
@@ -0,0 +1,76 @@
+import { IdempotencyCache } from '../core/websocket/idempotency-cache';
+
+describe('IdempotencyCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-12-18T10:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('replays the result of a repeated key within the window', async () => {
+    const cache = new IdempotencyCache<string>(1000);
+    const operation = jest.fn().mockResolvedValue('done');
+
+    await expect(cache.execute('msg-1', operation)).resolves.toEqual({ result: 'done', replayed: false });
+    await expect(cache.execute('msg-1', operation)).resolves.toEqual({ result: 'done', replayed: true });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for an operation that is still running', async () => {
+    const cache = new IdempotencyCache<string>(1000);
+    let finish: (value: string) => void = () => undefined;
+    const operation = jest.fn(() => new Promise<string>((resolve) => (finish = resolve)));
+
+    const first = cache.execute('msg-1', operation);
+    const retry = cache.execute('msg-1', operation);
+    finish('done');
+
+    await expect(first).resolves.toEqual({ result: 'done', replayed: false });
+    await expect(retry).resolves.toEqual({ result: 'done', replayed: true });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs the operation again once the window expires', async () => {
+    const cache = new IdempotencyCache<string>(1000);
+    const operation = jest.fn().mockResolvedValue('done');
+
+    await cache.execute('msg-1', operation);
+    jest.advanceTimersByTime(1001);
+
+    await expect(cache.execute('msg-1', operation)).resolves.toEqual({ result: 'done', replayed: false });
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep failed operations', async () => {
+    const cache = new IdempotencyCache<string>(1000);
+    const operation = jest.fn().mockRejectedValueOnce(new Error('store unavailable')).mockResolvedValue('done');
+
+    await expect(cache.execute('msg-1', operation)).rejects.toThrow('store unavailable');
+    await expect(cache.execute('msg-1', operation)).resolves.toEqual({ result: 'done', replayed: false });
+    expect(cache.size).toBe(1);
+  });
+
+  it('does not keep results rejected by shouldCache', async () => {
+    const cache = new IdempotencyCache<string>(1000);
+    const operation = jest.fn().mockResolvedValue('error');
+
+    await cache.execute('msg-1', operation, (result) => result !== 'error');
+    await cache.execute('msg-1', operation, (result) => result !== 'error');
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the oldest entries beyond the maximum', async () => {
+    const cache = new IdempotencyCache<number>(1000, 2);
+
+    for (const key of ['a', 'b', 'c']) {
+      await cache.execute(key, async () => 1);
+    }
+
+    expect(cache.size).toBe(2);
+    await expect(cache.execute('a', async () => 2)).resolves.toEqual({ result: 2, replayed: false });
+  });
+});
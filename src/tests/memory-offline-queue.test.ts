@@ -0,0 +1,45 @@
+import { MemoryOfflineQueue } from '../core/messaging/memory-offline-queue';
+import { WebSocketMessage, WebSocketMessageType } from '../types/websocket';
+
+function directMessage(text: string): WebSocketMessage {
+  return { type: WebSocketMessageType.DIRECT_MESSAGE, timestamp: '', payload: { from: 'alice', data: { text } } };
+}
+
+describe('MemoryOfflineQueue', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('drains the messages of a user from oldest to newest only once', async () => {
+    const queue = new MemoryOfflineQueue({ maxPerUser: 10, ttl: 60000 });
+    await queue.enqueue('bob', directMessage('first'));
+    await queue.enqueue('bob', directMessage('second'));
+    await queue.enqueue('carol', directMessage('other'));
+
+    await expect(queue.drain('bob')).resolves.toEqual([directMessage('first'), directMessage('second')]);
+    await expect(queue.drain('bob')).resolves.toEqual([]);
+    await expect(queue.drain('carol')).resolves.toHaveLength(1);
+  });
+
+  it('drops the oldest messages beyond the limit per user', async () => {
+    const queue = new MemoryOfflineQueue({ maxPerUser: 2, ttl: 60000 });
+
+    for (const text of ['first', 'second', 'third']) {
+      await queue.enqueue('bob', directMessage(text));
+    }
+
+    await expect(queue.drain('bob')).resolves.toEqual([directMessage('second'), directMessage('third')]);
+  });
+
+  it('discards expired messages', async () => {
+    jest.useFakeTimers();
+    const queue = new MemoryOfflineQueue({ maxPerUser: 10, ttl: 60000 });
+    await queue.enqueue('bob', directMessage('expired'));
+    jest.advanceTimersByTime(30000);
+    await queue.enqueue('bob', directMessage('live'));
+
+    jest.advanceTimersByTime(30000);
+
+    await expect(queue.drain('bob')).resolves.toEqual([directMessage('live')]);
+  });
+});
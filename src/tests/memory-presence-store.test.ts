@@ -0,0 +1,76 @@
+import { MemoryPresenceStore } from '../core/presence/memory-presence-store';
+import { UserPresenceStatus } from '../types/websocket';
+
+// El logger abre un transporte que no hace falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+
+// Deja que se entreguen las notificaciones, que son asíncronas como las de Firestore
+const notified = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('MemoryPresenceStore', () => {
+  let store: MemoryPresenceStore;
+
+  beforeEach(() => {
+    store = new MemoryPresenceStore();
+  });
+
+  it('merges writes and keeps the metadata when a write has none', async () => {
+    await store.updatePresence({ userId: 'user123', status: UserPresenceStatus.BUSY, lastSeen: 't1', metadata: { note: 'In a meeting' } });
+    await store.updatePresence({ userId: 'user123', status: UserPresenceStatus.ONLINE, lastSeen: 't2' });
+
+    await expect(store.getPresence('user123')).resolves.toEqual({
+      userId: 'user123',
+      status: UserPresenceStatus.ONLINE,
+      lastSeen: 't2',
+      metadata: { note: 'In a meeting' }
+    });
+    await expect(store.getPresence('unknown')).resolves.toBeNull();
+  });
+
+  it('returns copies that cannot change the stored presence', async () => {
+    await store.updatePresence({ userId: 'user123', status: UserPresenceStatus.ONLINE, lastSeen: '' });
+
+    const copy = await store.getPresence('user123');
+    copy!.status = UserPresenceStatus.OFFLINE;
+
+    await expect(store.getPresence('user123')).resolves.toMatchObject({ status: UserPresenceStatus.ONLINE });
+  });
+
+  it('notifies every change and a single user to its watchers until they stop', async () => {
+    const all = jest.fn();
+    const single = jest.fn();
+    const stopAll = await store.watchPresenceChanges(all);
+    store.watchUserPresence('user123', single);
+
+    await store.updatePresence({ userId: 'user123', status: UserPresenceStatus.ONLINE, lastSeen: '' });
+    await store.updatePresence({ userId: 'user456', status: UserPresenceStatus.AWAY, lastSeen: '' });
+    expect(all).not.toHaveBeenCalled();
+    await notified();
+
+    expect(all).toHaveBeenCalledTimes(2);
+    expect(single).toHaveBeenCalledTimes(1);
+    expect(single).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user123' }));
+
+    stopAll();
+    await store.updatePresence({ userId: 'user456', status: UserPresenceStatus.BUSY, lastSeen: '' });
+    await notified();
+    expect(all).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks only the entries written by the node as offline when asked to', async () => {
+    await store.updatePresence({ userId: 'user123', status: UserPresenceStatus.ONLINE, lastSeen: '', originNodeId: 'node-a', version: 1 });
+    await store.updatePresence({ userId: 'user456', status: UserPresenceStatus.ONLINE, lastSeen: '', originNodeId: 'node-b', version: 1 });
+
+    await store.cleanupOfflinePresence('node-a', true);
+
+    await expect(store.getPresence('user123')).resolves.toMatchObject({ status: UserPresenceStatus.OFFLINE, devices: [], originNodeId: 'node-a' });
+    expect((await store.getPresence('user123'))!.version).toBeGreaterThan(1);
+    await expect(store.getPresence('user456')).resolves.toMatchObject({ status: UserPresenceStatus.ONLINE });
+
+    await store.cleanupOfflinePresence('node-a', false);
+    await expect(store.getPresence('user456')).resolves.toMatchObject({ status: UserPresenceStatus.OFFLINE, originNodeId: 'node-a' });
+  });
+});
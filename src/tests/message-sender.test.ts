@@ -0,0 +1,117 @@
+import { WebSocket } from 'ws';
+import { configureBackpressure, sendMessage } from '../core/websocket/message-sender';
+import { metricsService } from '../services/metrics-service';
+import { UserPresenceStatus, WebSocketClient, WebSocketMessage, WebSocketMessageType } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  // Cualquier método de métricas es un mock
+  metricsService: new Proxy({}, { get: (methods: Record<string, jest.Mock>, name: string) => (methods[name] ||= jest.fn()) })
+}));
+
+const HIGH_WATER_MARK = 1000;
+const MAX_BUFFERED_AMOUNT = 5000;
+
+function createClient(): WebSocketClient {
+  return {
+    userId: 'user123',
+    readyState: WebSocket.OPEN,
+    bufferedAmount: 0,
+    send: jest.fn(),
+    terminate: jest.fn()
+  } as unknown as WebSocketClient;
+}
+
+// Simula los bytes que el socket aún no pudo enviar
+function setBufferedAmount(client: WebSocketClient, bytes: number): void {
+  (client as { bufferedAmount: number }).bufferedAmount = bytes;
+}
+
+function presenceUpdate(userId: string, status: UserPresenceStatus): WebSocketMessage {
+  return { type: WebSocketMessageType.PRESENCE_UPDATE, timestamp: '', payload: { userId, status } };
+}
+
+const directMessage: WebSocketMessage = { type: WebSocketMessageType.DIRECT_MESSAGE, timestamp: '', payload: { from: 'alice' } };
+
+// Mensajes enviados a un socket de prueba, ya decodificados
+function sent(client: WebSocketClient): any[] {
+  return (client.send as jest.Mock).mock.calls.map(([data]) => JSON.parse(data));
+}
+
+describe('sendMessage', () => {
+  let client: WebSocketClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    configureBackpressure({ highWaterMark: HIGH_WATER_MARK, maxBufferedAmount: MAX_BUFFERED_AMOUNT, slowConsumerPolicy: 'close' });
+    client = createClient();
+  });
+
+  afterEach(() => {
+    clearInterval(client.drainTimer);
+    jest.useRealTimers();
+  });
+
+  it('writes straight to a socket that keeps up', () => {
+    expect(sendMessage(client, presenceUpdate('alice', UserPresenceStatus.AWAY))).toBe(true);
+
+    expect(sent(client)).toEqual([presenceUpdate('alice', UserPresenceStatus.AWAY)]);
+  });
+
+  it('does not write to a closed socket', () => {
+    (client as { readyState: number }).readyState = WebSocket.CLOSED;
+
+    expect(sendMessage(client, directMessage)).toBe(false);
+    expect(client.send).not.toHaveBeenCalled();
+  });
+
+  it('coalesces presence updates of the same user while the socket is behind', () => {
+    setBufferedAmount(client, HIGH_WATER_MARK + 1);
+
+    sendMessage(client, presenceUpdate('alice', UserPresenceStatus.AWAY));
+    sendMessage(client, presenceUpdate('bob', UserPresenceStatus.BUSY));
+    sendMessage(client, presenceUpdate('alice', UserPresenceStatus.ONLINE));
+
+    expect(client.send).not.toHaveBeenCalled();
+    expect(metricsService.changeSlowConsumers).toHaveBeenCalledWith(1);
+    expect(metricsService.incrementBackpressure).toHaveBeenCalledWith('coalesced', WebSocketMessageType.PRESENCE_UPDATE);
+
+    setBufferedAmount(client, 0);
+    jest.advanceTimersByTime(50);
+
+    expect(sent(client)).toEqual([presenceUpdate('bob', UserPresenceStatus.BUSY), presenceUpdate('alice', UserPresenceStatus.ONLINE)]);
+    expect(metricsService.changeSlowConsumers).toHaveBeenLastCalledWith(-1);
+  });
+
+  it('keeps writing other messages until the maximum is exceeded', () => {
+    setBufferedAmount(client, HIGH_WATER_MARK + 1);
+
+    expect(sendMessage(client, directMessage)).toBe(true);
+    expect(client.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('terminates a slow consumer with the close policy', () => {
+    setBufferedAmount(client, MAX_BUFFERED_AMOUNT + 1);
+
+    expect(sendMessage(client, directMessage)).toBe(false);
+
+    expect(client.terminate).toHaveBeenCalled();
+    expect(metricsService.incrementBackpressure).toHaveBeenCalledWith('closed', WebSocketMessageType.DIRECT_MESSAGE);
+  });
+
+  it('drops messages for a slow consumer with the drop policy', () => {
+    configureBackpressure({ slowConsumerPolicy: 'drop' });
+    setBufferedAmount(client, MAX_BUFFERED_AMOUNT + 1);
+
+    expect(sendMessage(client, directMessage)).toBe(false);
+
+    expect(client.send).not.toHaveBeenCalled();
+    expect(client.terminate).not.toHaveBeenCalled();
+    expect(metricsService.incrementBackpressure).toHaveBeenCalledWith('dropped', WebSocketMessageType.DIRECT_MESSAGE);
+  });
+});
@@ -0,0 +1,73 @@
+import { encode } from '@msgpack/msgpack';
+import { CODECS } from '../core/websocket/codec';
+import { decodeMessage, LATEST_PROTOCOL_VERSION, negotiateProtocolVersion } from '../core/websocket/message-validator';
+
+// Decodifica un mensaje JSON como lo recibiría el socket
+function decodeJson(message: unknown) {
+  return decodeMessage(Buffer.from(typeof message === 'string' ? message : JSON.stringify(message)), CODECS.json);
+}
+
+describe('decodeMessage', () => {
+  it('accepts valid messages of every codec', () => {
+    const message = { id: 'req-1', type: 'presence_update', payload: { status: 'busy', metadata: { note: 'In a meeting' } } };
+
+    expect(decodeJson(message)).toEqual({ valid: true, message });
+    expect(decodeMessage(Buffer.from(encode(message)), CODECS.msgpack)).toEqual({ valid: true, message });
+  });
+
+  it('reports messages the codec cannot decode', () => {
+    expect(decodeJson('{not json')).toMatchObject({ valid: false, code: 'INVALID_JSON', error: 'Message is not valid JSON' });
+    expect(decodeMessage(Buffer.from([0xc1]), CODECS.msgpack)).toMatchObject({ valid: false, code: 'INVALID_MSGPACK' });
+  });
+
+  it.each([
+    ['an array', [], 'Message must be an object'],
+    ['a numeric id', { id: 1, type: 'heartbeat' }, 'id must be a string of at most 128 characters'],
+    ['a long id', { id: 'x'.repeat(129), type: 'heartbeat' }, 'id must be a string of at most 128 characters'],
+    ['no type', { id: 'req-1' }, 'type is required'],
+    ['a numeric timestamp', { type: 'heartbeat', timestamp: 1 }, 'timestamp must be a string']
+  ])('rejects a message with %s', (_case, message, error) => {
+    expect(decodeJson(message)).toMatchObject({ valid: false, code: 'INVALID_MESSAGE', error });
+  });
+
+  it('rejects the types a client cannot send and echoes the request id', () => {
+    expect(decodeJson({ id: 'req-1', type: 'connect' })).toEqual({
+      valid: false,
+      code: 'UNSUPPORTED_TYPE',
+      error: 'Unsupported message type: connect',
+      requestId: 'req-1'
+    });
+  });
+
+  it.each([
+    [{ type: 'presence_update', payload: { status: 'offline' } }, 'payload.status must be one of: online, away, busy'],
+    [{ type: 'presence_update', payload: { status: 'away', metadata: 'x' } }, 'payload.metadata must be an object'],
+    [{ type: 'subscribe', payload: { userIds: 'user123' } }, 'payload.userIds must be an array of strings'],
+    [{ type: 'unsubscribe', payload: { userIds: [''] } }, 'payload.userIds must contain only non-empty strings'],
+    [{ type: 'join', payload: { roomId: 'r'.repeat(129) } }, 'payload.roomId must be at most 128 characters'],
+    [{ type: 'room_metadata', payload: { roomId: 'room-1' } }, 'payload.metadata must be an object'],
+    [{ type: 'signal', payload: { signal: 'typing!', to: ['user456'] } }, 'payload.signal must be 1-64 letters, digits or _ . : -'],
+    [{ type: 'signal', payload: { signal: 'typing', to: ['user456'], roomId: 'room-1' } }, 'payload must have either to or roomId'],
+    [{ type: 'signal', payload: { signal: 'typing', to: [1] } }, 'payload.to must contain only non-empty strings'],
+    [{ type: 'direct_message', payload: { to: 'user456' } }, 'payload.data must be an object'],
+    [{ type: 'auth', payload: {} }, 'payload.token must be a non-empty string']
+  ])('rejects the payload of %j', (message, error) => {
+    expect(decodeJson(message)).toMatchObject({ valid: false, code: 'INVALID_PAYLOAD', error });
+  });
+});
+
+describe('negotiateProtocolVersion', () => {
+  it('uses the latest version when the client does not send one', () => {
+    expect(negotiateProtocolVersion(null)).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  it('picks the highest version the client supports', () => {
+    expect(negotiateProtocolVersion('1')).toBe(1);
+    expect(negotiateProtocolVersion('5')).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  it('fails without a compatible version', () => {
+    expect(negotiateProtocolVersion('0')).toBeNull();
+    expect(negotiateProtocolVersion('v1')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { aggregateDeviceStatus } from '../core/presence/presence-aggregation';
+import { ClientType, DevicePresence, UserPresenceStatus } from '../types/websocket';
+
+function device(status: UserPresenceStatus, explicit: boolean = false, statusChangedAt: string = '2024-12-18T10:00:00.000Z'): DevicePresence {
+  return {
+    deviceId: `device-${Math.random()}`,
+    clientType: ClientType.WEB,
+    status,
+    explicit,
+    statusChangedAt,
+    lastActive: statusChangedAt
+  };
+}
+
+describe('aggregateDeviceStatus', () => {
+  it('is offline without devices', () => {
+    expect(aggregateDeviceStatus([], 'most_available')).toBe(UserPresenceStatus.OFFLINE);
+    expect(aggregateDeviceStatus([], 'explicit_wins')).toBe(UserPresenceStatus.OFFLINE);
+  });
+
+  describe('most_available', () => {
+    it('keeps the user online while any device is online', () => {
+      const devices = [device(UserPresenceStatus.BUSY, true), device(UserPresenceStatus.ONLINE), device(UserPresenceStatus.AWAY)];
+
+      expect(aggregateDeviceStatus(devices, 'most_available')).toBe(UserPresenceStatus.ONLINE);
+    });
+
+    it('prefers away over busy', () => {
+      const devices = [device(UserPresenceStatus.BUSY), device(UserPresenceStatus.AWAY)];
+
+      expect(aggregateDeviceStatus(devices, 'most_available')).toBe(UserPresenceStatus.AWAY);
+    });
+  });
+
+  describe('explicit_wins', () => {
+    it('uses the latest explicit status', () => {
+      const devices = [
+        device(UserPresenceStatus.ONLINE),
+        device(UserPresenceStatus.AWAY, true, '2024-12-18T10:00:00.000Z'),
+        device(UserPresenceStatus.BUSY, true, '2024-12-18T10:05:00.000Z')
+      ];
+
+      expect(aggregateDeviceStatus(devices, 'explicit_wins')).toBe(UserPresenceStatus.BUSY);
+    });
+
+    it('ignores explicit offline devices', () => {
+      const devices = [device(UserPresenceStatus.AWAY), device(UserPresenceStatus.OFFLINE, true, '2024-12-18T10:05:00.000Z')];
+
+      expect(aggregateDeviceStatus(devices, 'explicit_wins')).toBe(UserPresenceStatus.AWAY);
+    });
+
+    it('falls back to most_available without explicit statuses', () => {
+      const devices = [device(UserPresenceStatus.AWAY), device(UserPresenceStatus.ONLINE)];
+
+      expect(aggregateDeviceStatus(devices, 'explicit_wins')).toBe(UserPresenceStatus.ONLINE);
+    });
+  });
+});
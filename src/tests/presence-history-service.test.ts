@@ -0,0 +1,101 @@
+import { PresenceHistoryService } from '../core/history/presence-history-service';
+import { MemoryHistorySink } from '../core/history/memory-history-sink';
+import { PresenceTransition, UserPresenceStatus } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  metricsService: { incrementMessages: jest.fn(), incrementErrors: jest.fn() }
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+function transition(from: UserPresenceStatus, to: UserPresenceStatus, timestamp: string): PresenceTransition {
+  return { userId: 'user123', from, to, timestamp, reason: 'explicit' };
+}
+
+describe('PresenceHistoryService', () => {
+  let sink: MemoryHistorySink;
+  let history: PresenceHistoryService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-12-20T12:00:00.000Z') });
+    sink = new MemoryHistorySink(100);
+    history = new PresenceHistoryService(sink);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getDailyPresenceTime', () => {
+    it('adds up the time spent in each status', async () => {
+      await history.record(transition(UserPresenceStatus.OFFLINE, UserPresenceStatus.ONLINE, '2024-12-18T08:00:00.000Z'));
+      await history.record(transition(UserPresenceStatus.ONLINE, UserPresenceStatus.AWAY, '2024-12-18T10:00:00.000Z'));
+      await history.record(transition(UserPresenceStatus.AWAY, UserPresenceStatus.BUSY, '2024-12-18T11:00:00.000Z'));
+      await history.record(transition(UserPresenceStatus.BUSY, UserPresenceStatus.OFFLINE, '2024-12-18T11:30:00.000Z'));
+
+      const days = await history.getDailyPresenceTime(
+        'user123',
+        new Date('2024-12-18T00:00:00.000Z'),
+        new Date('2024-12-18T23:59:59.999Z'),
+        UserPresenceStatus.OFFLINE
+      );
+
+      expect(days).toEqual([{ date: '2024-12-18', online: 2 * HOUR, away: HOUR, busy: HOUR / 2, total: 3.5 * HOUR }]);
+    });
+
+    it('splits a session that crosses midnight between both days', async () => {
+      await history.record(transition(UserPresenceStatus.OFFLINE, UserPresenceStatus.ONLINE, '2024-12-18T22:00:00.000Z'));
+      await history.record(transition(UserPresenceStatus.ONLINE, UserPresenceStatus.OFFLINE, '2024-12-19T03:00:00.000Z'));
+
+      const days = await history.getDailyPresenceTime(
+        'user123',
+        new Date('2024-12-18T00:00:00.000Z'),
+        new Date('2024-12-19T23:59:59.999Z'),
+        UserPresenceStatus.OFFLINE
+      );
+
+      expect(days.map((day) => [day.date, day.online])).toEqual([['2024-12-18', 2 * HOUR], ['2024-12-19', 3 * HOUR]]);
+    });
+
+    it('uses the first transition to know the status at the start of the range', async () => {
+      await history.record(transition(UserPresenceStatus.ONLINE, UserPresenceStatus.OFFLINE, '2024-12-18T02:00:00.000Z'));
+
+      const [day] = await history.getDailyPresenceTime(
+        'user123',
+        new Date('2024-12-18T00:00:00.000Z'),
+        new Date('2024-12-18T23:59:59.999Z'),
+        UserPresenceStatus.OFFLINE
+      );
+
+      expect(day.online).toBe(2 * HOUR);
+    });
+
+    it('uses the current status when nothing changed and stops counting at now', async () => {
+      const days = await history.getDailyPresenceTime(
+        'user123',
+        new Date('2024-12-20T00:00:00.000Z'),
+        new Date('2024-12-21T23:59:59.999Z'),
+        UserPresenceStatus.ONLINE
+      );
+
+      expect(days).toEqual([
+        { date: '2024-12-20', online: 12 * HOUR, away: 0, busy: 0, total: 12 * HOUR },
+        { date: '2024-12-21', online: 0, away: 0, busy: 0, total: 0 }
+      ]);
+    });
+  });
+
+  it('does not propagate errors from the sink', async () => {
+    const failing = new PresenceHistoryService({
+      record: () => Promise.reject(new Error('disk full')),
+      query: () => Promise.resolve([])
+    });
+
+    await expect(failing.record(transition(UserPresenceStatus.OFFLINE, UserPresenceStatus.ONLINE, '2024-12-20T11:00:00.000Z'))).resolves.toBeUndefined();
+  });
+});
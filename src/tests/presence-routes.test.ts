@@ -0,0 +1,136 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { createPresenceRouter } from '../api/presence-routes';
+import { PresenceService } from '../core/presence/presence-service';
+import { MemoryPresenceStore } from '../core/presence/memory-presence-store';
+import { WebSocketServer } from '../core/websocket/websocket-service';
+import { UserPresenceStatus } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  // Cualquier método de métricas es un mock
+  metricsService: new Proxy({}, { get: (methods: Record<string, jest.Mock>, name: string) => (methods[name] ||= jest.fn()) })
+}));
+// Los tokens se validan como JWT locales, sin Firebase
+jest.mock('../services/auth-service', () => {
+  const actual = jest.requireActual('../services/auth-service');
+  return {
+    ...actual,
+    authService: new actual.AuthService({ provider: 'jwt', jwt: { algorithm: 'HS256', secret: 'test-secret', publicKey: '' } })
+  };
+});
+
+const USER = jwt.sign({ sub: 'user123' }, 'test-secret');
+const OTHER_USER = jwt.sign({ sub: 'user456' }, 'test-secret');
+const SERVICE = jwt.sign({ sub: 'orders-service', role: 'service' }, 'test-secret');
+const ADMIN = jwt.sign({ sub: 'admin1', admin: true }, 'test-secret');
+
+describe('presence routes', () => {
+  let presence: PresenceService;
+  let wsServer: { disconnectUser: jest.Mock };
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  function request(method: string, path: string, token?: string, body?: unknown): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  beforeEach(async () => {
+    presence = new PresenceService(new MemoryPresenceStore(), undefined, { idleTimeout: 0 });
+    await presence.updatePresence('user123', UserPresenceStatus.BUSY);
+    wsServer = { disconnectUser: jest.fn(() => ({ disconnected: 1, remote: false })) };
+
+    const app = express();
+    app.use(express.json());
+    app.use(createPresenceRouter(presence, wsServer as unknown as WebSocketServer));
+    httpServer = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    presence.cleanup();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('rejects requests without a valid token', async () => {
+    expect((await request('GET', '/presence/user123')).status).toBe(401);
+    expect((await request('GET', '/presence/user123', 'not-a-token')).status).toBe(401);
+  });
+
+  describe('GET /presence/:userId', () => {
+    it('lets users read their own presence', async () => {
+      const response = await request('GET', '/presence/user123', USER);
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toMatchObject({ userId: 'user123', status: 'busy' });
+    });
+
+    it('does not let users read the presence of others', async () => {
+      expect((await request('GET', '/presence/user123', OTHER_USER)).status).toBe(403);
+    });
+
+    it.each([['a service', SERVICE], ['an admin', ADMIN]])('lets %s read any presence', async (_role, token) => {
+      expect((await request('GET', '/presence/user123', token)).status).toBe(200);
+      expect((await request('GET', '/presence/unknown', token)).status).toBe(404);
+    });
+  });
+
+  describe('GET /presence', () => {
+    it('requires a service or admin token', async () => {
+      expect((await request('GET', '/presence', USER)).status).toBe(403);
+      expect((await request('GET', '/presence', ADMIN)).status).toBe(200);
+    });
+
+    it('filters and paginates the list', async () => {
+      await presence.updatePresence('user456', UserPresenceStatus.AWAY);
+
+      const response = await request('GET', '/presence?status=busy&limit=10', SERVICE);
+
+      await expect(response.json()).resolves.toMatchObject({ items: [{ userId: 'user123' }], total: 1, limit: 10, offset: 0 });
+      expect((await request('GET', '/presence?status=sleeping', SERVICE)).status).toBe(400);
+    });
+  });
+
+  describe('POST /presence/query', () => {
+    it('requires a service or admin token', async () => {
+      expect((await request('POST', '/presence/query', USER, { userIds: ['user123'] })).status).toBe(403);
+    });
+
+    it('returns the known users and the missing ones', async () => {
+      const response = await request('POST', '/presence/query', SERVICE, { userIds: ['user123', 'user789'] });
+
+      await expect(response.json()).resolves.toMatchObject({ presence: [{ userId: 'user123' }], missing: ['user789'] });
+      expect((await request('POST', '/presence/query', SERVICE, { userIds: 'user123' })).status).toBe(400);
+    });
+  });
+
+  describe('admin routes', () => {
+    it('require an admin token', async () => {
+      expect((await request('PUT', '/admin/presence/user123', SERVICE, { status: 'away' })).status).toBe(403);
+      expect((await request('POST', '/admin/presence/user123/kick', SERVICE)).status).toBe(403);
+    });
+
+    it('force a status and kick a user', async () => {
+      const forced = await request('PUT', '/admin/presence/user123', ADMIN, { status: 'away', metadata: { reason: 'test' } });
+      const kicked = await request('POST', '/admin/presence/user123/kick', ADMIN, { reason: 'Maintenance' });
+
+      await expect(forced.json()).resolves.toMatchObject({ status: 'away', metadata: { reason: 'test' } });
+      await expect(kicked.json()).resolves.toEqual({ userId: 'user123', disconnected: 1, remote: false });
+      expect(wsServer.disconnectUser).toHaveBeenCalledWith('user123', 'Maintenance');
+    });
+  });
+});
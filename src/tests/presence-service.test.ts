@@ -0,0 +1,302 @@
+import { WebSocket } from 'ws';
+import { PresenceService } from '../core/presence/presence-service';
+import { PresenceStore } from '../core/presence/presence-store';
+import { metricsService } from '../services/metrics-service';
+import { ClientType, PresenceData, UserPresenceStatus, WebSocketClient } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  metricsService: {
+    incrementMessages: jest.fn(),
+    incrementErrors: jest.fn(),
+    incrementPresenceUpdates: jest.fn(),
+    incrementConnections: jest.fn(),
+    observeReconnection: jest.fn(),
+    observeMessageSize: jest.fn(),
+    addPayloadBytes: jest.fn(),
+    changeSlowConsumers: jest.fn(),
+    incrementBackpressure: jest.fn()
+  }
+}));
+
+// Busca campos `undefined` a cualquier profundidad, como hace Firestore antes de escribir
+function hasUndefined(value: unknown): boolean {
+  if (value === undefined) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasUndefined);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value).some(hasUndefined);
+  }
+  return false;
+}
+
+// Almacenamiento en memoria que rechaza las escrituras con campos `undefined`
+function createStrictStore(): PresenceStore & { writes: PresenceData[] } {
+  const writes: PresenceData[] = [];
+  return {
+    writes,
+    updatePresence: jest.fn(async (presenceData: PresenceData) => {
+      if (hasUndefined(presenceData)) {
+        throw new Error('Cannot use "undefined" as a Firestore value');
+      }
+      writes.push(presenceData);
+    }),
+    getPresence: jest.fn(async () => null),
+    watchPresenceChanges: jest.fn(async () => () => undefined),
+    watchUserPresence: jest.fn(() => () => undefined),
+    cleanupOfflinePresence: jest.fn(async () => undefined)
+  };
+}
+
+function createClient(userId: string, deviceId: string): WebSocketClient {
+  return {
+    userId,
+    deviceId,
+    clientType: ClientType.WEB,
+    readyState: WebSocket.OPEN,
+    bufferedAmount: 0,
+    send: jest.fn(),
+    terminate: jest.fn()
+  } as unknown as WebSocketClient;
+}
+
+describe('PresenceService', () => {
+  let store: ReturnType<typeof createStrictStore>;
+  let presence: PresenceService;
+
+  beforeEach(() => {
+    store = createStrictStore();
+    presence = new PresenceService(store, undefined, { idleTimeout: 0 });
+  });
+
+  afterEach(() => {
+    presence.cleanup();
+  });
+
+  describe('store writes', () => {
+    it('leaves metadata out of the first connection of a user', async () => {
+      await presence.addConnection('user123', createClient('user123', 'phone'));
+      await presence.flush();
+
+      expect(store.writes).toHaveLength(1);
+      expect(store.writes[0]).not.toHaveProperty('metadata');
+      expect(store.writes[0]).toMatchObject({ userId: 'user123', status: UserPresenceStatus.ONLINE });
+    });
+
+    it('leaves metadata out when the last device disconnects', async () => {
+      const client = createClient('user123', 'phone');
+      await presence.addConnection('user123', client);
+
+      await presence.removeConnection('user123', client);
+      await presence.flush();
+
+      expect(store.writes.map((write) => write.status)).toEqual([UserPresenceStatus.ONLINE, UserPresenceStatus.OFFLINE]);
+      expect(store.writes[1]).not.toHaveProperty('metadata');
+    });
+
+    it('keeps the metadata set by the user in later writes', async () => {
+      const client = createClient('user123', 'phone');
+      await presence.addConnection('user123', client);
+      await presence.updatePresence('user123', UserPresenceStatus.BUSY, { note: 'In a meeting' }, client);
+
+      await presence.removeConnection('user123', client);
+      await presence.flush();
+
+      expect(store.writes[2]).toMatchObject({ status: UserPresenceStatus.OFFLINE, metadata: { note: 'In a meeting' } });
+    });
+  });
+
+  describe('write latency', () => {
+    it('connects and disconnects without waiting for the store', async () => {
+      let finishWrite: () => void = () => undefined;
+      (store.updatePresence as jest.Mock).mockImplementation(() => new Promise<void>((resolve) => (finishWrite = resolve)));
+      const client = createClient('user123', 'phone');
+
+      await presence.addConnection('user123', client);
+      await presence.removeConnection('user123', client);
+
+      expect(presence.getPresence('user123')).toMatchObject({ status: UserPresenceStatus.OFFLINE });
+      finishWrite();
+    });
+
+    it('does not fail a connection when the write fails', async () => {
+      (store.updatePresence as jest.Mock).mockRejectedValue(new Error('unavailable'));
+
+      await expect(presence.addConnection('user123', createClient('user123', 'phone'))).resolves.toBeUndefined();
+      await presence.flush();
+
+      expect(metricsService.incrementErrors).toHaveBeenCalledWith('presence_persist', 'medium', 'server');
+    });
+
+    it('waits for the store before confirming an explicit update', async () => {
+      const client = createClient('user123', 'phone');
+      await presence.addConnection('user123', client);
+      (store.updatePresence as jest.Mock).mockRejectedValue(new Error('unavailable'));
+
+      await expect(presence.updatePresence('user123', UserPresenceStatus.BUSY, undefined, client)).rejects.toThrow('unavailable');
+    });
+  });
+
+  describe('store changes', () => {
+    // Entrega un cambio como si llegara del almacenamiento (la escucha se abre tras la limpieza inicial)
+    async function receive(presenceData: PresenceData): Promise<void> {
+      await new Promise((resolve) => setImmediate(resolve));
+      const [[callback]] = (store.watchPresenceChanges as jest.Mock).mock.calls;
+      callback(presenceData);
+    }
+
+    it('ignores the echoes of its own writes', async () => {
+      const listener = jest.fn();
+      presence.onPresenceChange(listener);
+
+      await receive({ userId: 'user123', status: UserPresenceStatus.ONLINE, lastSeen: '', originNodeId: 'local', version: 1 });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(presence.getPresence('user123')).toBeUndefined();
+    });
+
+    it('drops changes older than the known version', async () => {
+      await receive({ userId: 'user123', status: UserPresenceStatus.BUSY, lastSeen: '', originNodeId: 'node-b', version: 2 });
+      await receive({ userId: 'user123', status: UserPresenceStatus.ONLINE, lastSeen: '', originNodeId: 'node-b', version: 1 });
+
+      expect(presence.getPresence('user123')).toMatchObject({ status: UserPresenceStatus.BUSY, version: 2 });
+    });
+
+    it('keeps notifying change listeners after one of them throws', async () => {
+      const listener = jest.fn();
+      presence.onPresenceChange(() => {
+        throw new Error('listener failed');
+      });
+      presence.onPresenceChange(listener);
+      const watcher = createClient('user456', 'laptop');
+      await presence.subscribe(watcher, ['user123']);
+
+      await receive({ userId: 'user123', status: UserPresenceStatus.AWAY, lastSeen: '', originNodeId: 'node-b', version: 1 });
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ status: UserPresenceStatus.AWAY }));
+      expect(watcher.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('subscriptions', () => {
+    // Mensajes enviados a un socket de prueba, ya decodificados
+    function sent(client: WebSocketClient): any[] {
+      return (client.send as jest.Mock).mock.calls.map(([data]) => JSON.parse(data));
+    }
+
+    it('returns the current presence of every requested user', async () => {
+      await presence.updatePresence('user123', UserPresenceStatus.BUSY);
+
+      const snapshot = await presence.subscribe(createClient('user456', 'laptop'), ['user123', 'user789', 'user123']);
+
+      expect(snapshot).toEqual([
+        expect.objectContaining({ userId: 'user123', status: UserPresenceStatus.BUSY }),
+        { userId: 'user789', status: UserPresenceStatus.OFFLINE, lastSeen: '' }
+      ]);
+    });
+
+    it('only sends updates to the sockets watching the user', async () => {
+      const watcher = createClient('user456', 'laptop');
+      const other = createClient('user789', 'laptop');
+      await presence.subscribe(watcher, ['user123']);
+      await presence.subscribe(other, ['user999']);
+
+      await presence.updatePresence('user123', UserPresenceStatus.AWAY);
+
+      expect(sent(watcher)).toEqual([expect.objectContaining({ type: 'presence_update', payload: expect.objectContaining({ userId: 'user123' }) })]);
+      expect(other.send).not.toHaveBeenCalled();
+    });
+
+    it('stops sending updates after unsubscribing or removing the socket', async () => {
+      const watcher = createClient('user456', 'laptop');
+      const closing = createClient('user789', 'laptop');
+      await presence.subscribe(watcher, ['user123']);
+      await presence.subscribe(closing, ['user123']);
+
+      presence.unsubscribe(watcher, ['user123']);
+      presence.removeSubscriber(closing);
+      await presence.updatePresence('user123', UserPresenceStatus.AWAY);
+
+      expect(watcher.send).not.toHaveBeenCalled();
+      expect(closing.send).not.toHaveBeenCalled();
+      expect(watcher.subscriptions?.size).toBe(0);
+    });
+  });
+
+  describe('idle detection', () => {
+    const IDLE_TIMEOUT = 60000;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      presence.cleanup();
+      presence = new PresenceService(store, undefined, { idleTimeout: IDLE_TIMEOUT });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('marks an idle user away and back online on activity', async () => {
+      const client = createClient('user123', 'phone');
+      await presence.addConnection('user123', client);
+
+      await jest.advanceTimersByTimeAsync(IDLE_TIMEOUT);
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.AWAY);
+
+      await presence.recordActivity(client);
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.ONLINE);
+    });
+
+    it('keeps the user online while one device is active', async () => {
+      const phone = createClient('user123', 'phone');
+      const laptop = createClient('user123', 'laptop');
+      await presence.addConnection('user123', phone);
+      await presence.addConnection('user123', laptop);
+
+      await jest.advanceTimersByTimeAsync(IDLE_TIMEOUT / 2);
+      await presence.recordActivity(laptop);
+      await jest.advanceTimersByTimeAsync(IDLE_TIMEOUT / 2);
+
+      expect(presence.getPresence('user123')).toMatchObject({
+        status: UserPresenceStatus.ONLINE,
+        devices: expect.arrayContaining([
+          expect.objectContaining({ deviceId: 'phone', status: UserPresenceStatus.AWAY }),
+          expect.objectContaining({ deviceId: 'laptop', status: UserPresenceStatus.ONLINE })
+        ])
+      });
+    });
+
+    it('never overrides an explicit status', async () => {
+      const client = createClient('user123', 'phone');
+      await presence.addConnection('user123', client);
+      await presence.updatePresence('user123', UserPresenceStatus.BUSY, undefined, client);
+
+      await jest.advanceTimersByTimeAsync(IDLE_TIMEOUT);
+      await presence.recordActivity(client);
+
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.BUSY);
+    });
+  });
+
+  describe('devices', () => {
+    it('keeps the user online while another device is connected', async () => {
+      const phone = createClient('user123', 'phone');
+      await presence.addConnection('user123', phone);
+      await presence.addConnection('user123', createClient('user123', 'laptop'));
+
+      await presence.removeConnection('user123', phone);
+
+      expect(presence.getPresence('user123')).toMatchObject({
+        status: UserPresenceStatus.ONLINE,
+        devices: [expect.objectContaining({ deviceId: 'laptop' })]
+      });
+    });
+  });
+});
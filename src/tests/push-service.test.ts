@@ -0,0 +1,61 @@
+import { PushService } from '../core/push/push-service';
+import { WebSocketServer } from '../core/websocket/websocket-service';
+import { ClientType, WebSocketMessageType } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  metricsService: { incrementMessages: jest.fn() }
+}));
+
+describe('PushService', () => {
+  const wsServer = {
+    sendToUser: jest.fn(),
+    sendToClientType: jest.fn()
+  };
+  const pushService = new PushService(wsServer as unknown as WebSocketServer);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sends a push message with its id, event and data', async () => {
+    wsServer.sendToUser.mockResolvedValue({ delivered: 1, relayed: false, queued: false });
+
+    const result = await pushService.push({ userId: 'user123' }, { orderId: 'A-1001' }, { event: 'new_order' });
+
+    expect(wsServer.sendToUser).toHaveBeenCalledWith(
+      'user123',
+      expect.objectContaining({
+        type: WebSocketMessageType.PUSH,
+        payload: { pushId: result.pushId, event: 'new_order', data: { orderId: 'A-1001' } }
+      }),
+      false
+    );
+  });
+
+  it('adds up the delivery of every user once', async () => {
+    wsServer.sendToUser
+      .mockResolvedValueOnce({ delivered: 2, relayed: false, queued: false })
+      .mockResolvedValueOnce({ delivered: 0, relayed: true, queued: false })
+      .mockResolvedValueOnce({ delivered: 0, relayed: false, queued: true });
+
+    const result = await pushService.push({ userIds: ['a', 'b', 'a', 'c'] }, {}, { queueIfOffline: true });
+
+    expect(wsServer.sendToUser).toHaveBeenCalledTimes(3);
+    expect(wsServer.sendToUser).toHaveBeenLastCalledWith('c', expect.anything(), true);
+    expect(result).toMatchObject({ delivered: 2, relayed: 1, queued: 1 });
+  });
+
+  it('reports the nodes a client type push was relayed to', async () => {
+    wsServer.sendToClientType.mockReturnValue({ delivered: 3, relayed: 2 });
+
+    const result = await pushService.push({ clientType: ClientType.FLUTTER }, { version: '2.0.0' }, { queueIfOffline: true });
+
+    expect(wsServer.sendToClientType).toHaveBeenCalledWith(ClientType.FLUTTER, expect.objectContaining({ type: WebSocketMessageType.PUSH }));
+    expect(result).toMatchObject({ delivered: 3, relayed: 2, queued: 0 });
+  });
+});
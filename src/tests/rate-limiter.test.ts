@@ -0,0 +1,77 @@
+import { RateLimiter } from '../core/websocket/rate-limiter';
+
+describe('RateLimiter', () => {
+  const budget = { rate: 2, burst: 3 };
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-12-18T10:00:00.000Z') });
+    limiter = new RateLimiter();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows a full burst and then limits', () => {
+    expect([1, 2, 3].map(() => limiter.consume('socket:a', budget))).toEqual([true, true, true]);
+    expect(limiter.consume('socket:a', budget)).toBe(false);
+  });
+
+  it('refills tokens continuously at the configured rate', () => {
+    [1, 2, 3].forEach(() => limiter.consume('socket:a', budget));
+
+    jest.advanceTimersByTime(400);
+    expect(limiter.consume('socket:a', budget)).toBe(false);
+
+    jest.advanceTimersByTime(100);
+    expect(limiter.consume('socket:a', budget)).toBe(true);
+    expect(limiter.consume('socket:a', budget)).toBe(false);
+  });
+
+  it('never refills beyond the burst', () => {
+    limiter.consume('socket:a', budget);
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect([1, 2, 3].map(() => limiter.consume('socket:a', budget))).toEqual([true, true, true]);
+    expect(limiter.consume('socket:a', budget)).toBe(false);
+  });
+
+  it('keeps a separate bucket per key', () => {
+    [1, 2, 3].forEach(() => limiter.consume('socket:a', budget));
+
+    expect(limiter.consume('socket:a', budget)).toBe(false);
+    expect(limiter.consume('socket:b', budget)).toBe(true);
+  });
+
+  it('charges the given cost', () => {
+    expect(limiter.consume('socket:a', budget, 2)).toBe(true);
+    expect(limiter.consume('socket:a', budget, 2)).toBe(false);
+    expect(limiter.consume('socket:a', budget, 1)).toBe(true);
+  });
+
+  it('does not limit when the rate is 0', () => {
+    const unlimited = { rate: 0, burst: 0 };
+
+    expect([1, 2, 3, 4, 5].every(() => limiter.consume('socket:a', unlimited))).toBe(true);
+    expect(limiter.size).toBe(0);
+  });
+
+  it('starts over after a key is deleted', () => {
+    [1, 2, 3].forEach(() => limiter.consume('socket:a', budget));
+    limiter.delete('socket:a');
+
+    expect(limiter.consume('socket:a', budget)).toBe(true);
+  });
+
+  it('prunes full buckets', () => {
+    limiter.consume('socket:a', budget);
+    limiter.consume('socket:b', budget);
+    expect(limiter.size).toBe(2);
+
+    jest.advanceTimersByTime(60 * 1000);
+    limiter.consume('socket:c', budget);
+
+    expect(limiter.size).toBe(1);
+  });
+});
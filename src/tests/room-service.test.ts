@@ -0,0 +1,114 @@
+import { WebSocket } from 'ws';
+import { MemoryPresenceStore } from '../core/presence/memory-presence-store';
+import { PresenceService } from '../core/presence/presence-service';
+import { RoomService } from '../core/rooms/room-service';
+import { ClientType, UserPresenceStatus, WebSocketClient } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  // Cualquier método de métricas es un mock
+  metricsService: new Proxy({}, { get: (methods: Record<string, jest.Mock>, name: string) => (methods[name] ||= jest.fn()) })
+}));
+
+function createClient(userId: string): WebSocketClient {
+  return {
+    userId,
+    clientType: ClientType.WEB,
+    readyState: WebSocket.OPEN,
+    bufferedAmount: 0,
+    send: jest.fn()
+  } as unknown as WebSocketClient;
+}
+
+// Mensajes enviados a un socket de prueba, ya decodificados
+function sent(client: WebSocketClient): any[] {
+  return (client.send as jest.Mock).mock.calls.map(([data]) => JSON.parse(data));
+}
+
+describe('RoomService', () => {
+  let presence: PresenceService;
+  let rooms: RoomService;
+  let alice: WebSocketClient;
+  let bob: WebSocketClient;
+
+  beforeEach(() => {
+    presence = new PresenceService(new MemoryPresenceStore(), undefined, { idleTimeout: 0 });
+    rooms = new RoomService(presence);
+    alice = createClient('alice');
+    bob = createClient('bob');
+  });
+
+  afterEach(() => {
+    presence.cleanup();
+  });
+
+  it('returns the members with their status and metadata on join', async () => {
+    await presence.updatePresence('alice', UserPresenceStatus.BUSY);
+    rooms.join(alice, 'doc-1', { cursor: 10 });
+
+    const members = rooms.join(bob, 'doc-1');
+
+    expect(members).toEqual([
+      expect.objectContaining({ userId: 'alice', status: UserPresenceStatus.BUSY, metadata: { cursor: 10 } }),
+      expect.objectContaining({ userId: 'bob', status: UserPresenceStatus.ONLINE })
+    ]);
+    expect(bob.rooms?.has('doc-1')).toBe(true);
+  });
+
+  it('announces joins and leaves only to the other members of the room', () => {
+    const outsider = createClient('carol');
+    rooms.join(outsider, 'doc-2');
+    rooms.join(alice, 'doc-1');
+
+    rooms.join(bob, 'doc-1');
+    rooms.leave(bob, 'doc-1');
+
+    expect(sent(alice).map((message) => message.type)).toEqual(['member_joined', 'member_left']);
+    expect(sent(alice)[1].payload).toEqual({ roomId: 'doc-1', userId: 'bob' });
+    expect(bob.send).not.toHaveBeenCalled();
+    expect(outsider.send).not.toHaveBeenCalled();
+  });
+
+  it('keeps a user in the room while another of their sockets is in it', () => {
+    const bobLaptop = createClient('bob');
+    rooms.join(alice, 'doc-1');
+    rooms.join(bob, 'doc-1');
+    rooms.join(bobLaptop, 'doc-1');
+
+    rooms.leaveAll(bob);
+
+    expect(rooms.getMembers('doc-1').map((member) => member.userId)).toEqual(['alice', 'bob']);
+    expect(sent(alice).map((message) => message.type)).toEqual(['member_joined']);
+  });
+
+  it('shares metadata updates with the room', () => {
+    rooms.join(alice, 'doc-1');
+    rooms.join(bob, 'doc-1');
+
+    expect(rooms.setMetadata(bob, 'doc-1', { cursor: 42 })).toBe(true);
+    expect(rooms.setMetadata(bob, 'doc-2', { cursor: 42 })).toBe(false);
+    expect(sent(alice).pop()).toMatchObject({ type: 'member_updated', payload: { member: { userId: 'bob', metadata: { cursor: 42 } } } });
+  });
+
+  it('forwards presence changes of members to their rooms', async () => {
+    rooms.join(alice, 'doc-1');
+    rooms.join(bob, 'doc-1');
+
+    await presence.updatePresence('bob', UserPresenceStatus.AWAY);
+
+    expect(sent(alice).pop()).toMatchObject({ type: 'member_updated', payload: { member: { userId: 'bob', status: UserPresenceStatus.AWAY } } });
+  });
+
+  it('removes empty rooms', () => {
+    rooms.join(alice, 'doc-1');
+
+    rooms.leave(alice, 'doc-1');
+
+    expect(rooms.getRoomCount()).toBe(0);
+    expect(rooms.getMembers('doc-1')).toEqual([]);
+  });
+});
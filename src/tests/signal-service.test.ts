@@ -0,0 +1,83 @@
+import { Signal, SignalService, TYPING_START, TYPING_STOP } from '../core/signals/signal-service';
+
+// El logger abre un transporte que no hace falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+
+const TYPING_TIMEOUT = 5000;
+
+function signal(name: string, overrides: Partial<Signal> = {}): Signal {
+  return { name, from: 'alice', deviceId: 'phone', target: { userIds: ['bob'] }, ...overrides };
+}
+
+describe('SignalService', () => {
+  let relay: jest.Mock;
+  let signals: SignalService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    relay = jest.fn();
+    signals = new SignalService(relay, TYPING_TIMEOUT);
+  });
+
+  afterEach(() => {
+    signals.stop();
+    jest.useRealTimers();
+  });
+
+  it('relays every signal as is', () => {
+    const custom = signal('reaction', { data: { emoji: '👍' } });
+
+    signals.send(custom);
+
+    expect(relay).toHaveBeenCalledWith(custom);
+  });
+
+  it('sends an expired typing_stop when no stop arrives in time', () => {
+    signals.send(signal(TYPING_START, { data: { draft: true } }));
+
+    jest.advanceTimersByTime(TYPING_TIMEOUT);
+
+    expect(relay).toHaveBeenLastCalledWith({ ...signal(TYPING_STOP), data: undefined, expired: true });
+  });
+
+  it('restarts the timeout on every typing_start and clears it on typing_stop', () => {
+    signals.send(signal(TYPING_START));
+    jest.advanceTimersByTime(TYPING_TIMEOUT - 1);
+    signals.send(signal(TYPING_START));
+    jest.advanceTimersByTime(TYPING_TIMEOUT - 1);
+    signals.send(signal(TYPING_STOP));
+
+    jest.advanceTimersByTime(TYPING_TIMEOUT);
+
+    expect(relay.mock.calls.map(([relayed]) => relayed.name)).toEqual([TYPING_START, TYPING_START, TYPING_STOP]);
+  });
+
+  it('tracks typing separately per device and target', () => {
+    signals.send(signal(TYPING_START));
+    signals.send(signal(TYPING_START, { deviceId: 'laptop' }));
+    signals.send(signal(TYPING_START, { target: { roomId: 'chat-1' } }));
+
+    signals.send(signal(TYPING_STOP, { deviceId: 'laptop' }));
+    jest.advanceTimersByTime(TYPING_TIMEOUT);
+
+    expect(relay.mock.calls.filter(([relayed]) => relayed.expired).map(([relayed]) => relayed.target)).toEqual([
+      { userIds: ['bob'] },
+      { roomId: 'chat-1' }
+    ]);
+  });
+
+  it('stops the typing of a device that disconnects', () => {
+    signals.send(signal(TYPING_START));
+    signals.send(signal(TYPING_START, { deviceId: 'laptop' }));
+
+    signals.clearDevice('alice', 'phone');
+
+    expect(relay).toHaveBeenLastCalledWith(expect.objectContaining({ name: TYPING_STOP, deviceId: 'phone', expired: true }));
+    jest.advanceTimersByTime(TYPING_TIMEOUT);
+    expect(relay).toHaveBeenLastCalledWith(expect.objectContaining({ name: TYPING_STOP, deviceId: 'laptop', expired: true }));
+    expect(relay).toHaveBeenCalledTimes(4);
+  });
+});
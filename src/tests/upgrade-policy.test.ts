@@ -0,0 +1,123 @@
+import { UpgradePolicy, UpgradePolicyOptions, createOriginMatcher } from '../core/websocket/upgrade-policy';
+
+function createPolicy(options: Partial<UpgradePolicyOptions> = {}): UpgradePolicy {
+  return new UpgradePolicy({ allowedOrigins: ['*'], ipAllowList: [], ipDenyList: [], trustedProxies: [], maxConnections: 0, ...options });
+}
+
+describe('UpgradePolicy', () => {
+  it('allows every upgrade with the default options', () => {
+    expect(createPolicy().check({ origin: 'https://any.example.org', ip: '203.0.113.7', connections: 10000 })).toBeNull();
+  });
+
+  describe('IP lists', () => {
+    it('allows only addresses inside the allowed CIDR ranges', () => {
+      const policy = createPolicy({ ipAllowList: ['10.0.0.0/8', '192.168.1.10'] });
+
+      expect(policy.check({ ip: '10.20.30.40', connections: 0 })).toBeNull();
+      expect(policy.check({ ip: '192.168.1.10', connections: 0 })).toBeNull();
+      expect(policy.check({ ip: '192.168.1.11', connections: 0 })).toMatchObject({ reason: 'ip_not_allowed', status: 403 });
+    });
+
+    it('rejects upgrades without an address when an allow list is set', () => {
+      expect(createPolicy({ ipAllowList: ['10.0.0.0/8'] }).check({ connections: 0 })).toMatchObject({ reason: 'ip_not_allowed' });
+    });
+
+    it('compares IPv4-mapped IPv6 addresses as IPv4', () => {
+      const policy = createPolicy({ ipAllowList: ['10.0.0.0/8'] });
+
+      expect(policy.check({ ip: '::ffff:10.1.2.3', connections: 0 })).toBeNull();
+    });
+
+    it('matches IPv6 ranges', () => {
+      const policy = createPolicy({ ipDenyList: ['2001:db8::/32'] });
+
+      expect(policy.check({ ip: '2001:db8::1', connections: 0 })).toMatchObject({ reason: 'ip_denied', status: 403 });
+      expect(policy.check({ ip: '2001:db9::1', connections: 0 })).toBeNull();
+    });
+
+    it('gives the deny list priority over the allow list', () => {
+      const policy = createPolicy({ ipAllowList: ['10.0.0.0/8'], ipDenyList: ['10.0.0.5'] });
+
+      expect(policy.check({ ip: '10.0.0.5', connections: 0 })).toMatchObject({ reason: 'ip_denied' });
+      expect(policy.check({ ip: '10.0.0.6', connections: 0 })).toBeNull();
+    });
+
+    it.each(['10.0.0.0/33', 'not-an-ip', '10.0.0.0/x', '2001:db8::/129'])('rejects the invalid entry %s', (entry) => {
+      expect(() => createPolicy({ ipDenyList: [entry] })).toThrow(`Invalid IP address or CIDR range: ${entry}`);
+    });
+  });
+
+  describe('origins', () => {
+    const policy = createPolicy({ allowedOrigins: ['https://app.example.com', 'https://*.example.org'] });
+
+    it('allows exact origins regardless of case', () => {
+      expect(policy.check({ origin: 'https://APP.example.com', connections: 0 })).toBeNull();
+    });
+
+    it('allows any subdomain of a wildcard origin but not the root domain', () => {
+      expect(policy.check({ origin: 'https://a.example.org', connections: 0 })).toBeNull();
+      expect(policy.check({ origin: 'https://a.b.example.org', connections: 0 })).toBeNull();
+      expect(policy.check({ origin: 'https://example.org', connections: 0 })).toMatchObject({ reason: 'forbidden_origin', status: 403 });
+    });
+
+    it('requires the same scheme', () => {
+      expect(policy.check({ origin: 'http://a.example.org', connections: 0 })).toMatchObject({ reason: 'forbidden_origin' });
+    });
+
+    it('does not treat a lookalike domain as a subdomain', () => {
+      expect(policy.check({ origin: 'https://evilexample.org', connections: 0 })).toMatchObject({ reason: 'forbidden_origin' });
+      expect(policy.check({ origin: 'https://a.example.org.evil.com', connections: 0 })).toMatchObject({ reason: 'forbidden_origin' });
+    });
+
+    it('does not restrict clients without an Origin header', () => {
+      expect(policy.check({ connections: 0 })).toBeNull();
+    });
+  });
+
+  describe('client address', () => {
+    const policy = createPolicy({ trustedProxies: ['10.0.0.0/8'] });
+
+    it('ignores X-Forwarded-For from untrusted peers', () => {
+      expect(policy.resolveClientAddress('203.0.113.7', '198.51.100.1')).toBe('203.0.113.7');
+      expect(createPolicy().resolveClientAddress('10.0.0.2', '198.51.100.1')).toBe('10.0.0.2');
+    });
+
+    it('takes the closest untrusted hop behind trusted proxies', () => {
+      expect(policy.resolveClientAddress('10.0.0.2', '198.51.100.1, 203.0.113.7, 10.0.0.3')).toBe('203.0.113.7');
+      expect(policy.resolveClientAddress('::ffff:10.0.0.2', ['198.51.100.1', '10.0.0.3'])).toBe('198.51.100.1');
+    });
+
+    it('keeps the socket address without a usable header', () => {
+      expect(policy.resolveClientAddress('10.0.0.2')).toBe('10.0.0.2');
+      expect(policy.resolveClientAddress('10.0.0.2', 'unknown')).toBe('10.0.0.2');
+    });
+
+    it('stops at a malformed hop', () => {
+      expect(policy.resolveClientAddress('10.0.0.2', '198.51.100.1, garbage, 10.0.0.3')).toBe('10.0.0.3');
+    });
+  });
+
+  describe('node capacity', () => {
+    it('rejects with 503 and Retry-After once the node is full', () => {
+      const policy = createPolicy({ maxConnections: 2 });
+
+      expect(policy.check({ connections: 1 })).toBeNull();
+      expect(policy.check({ connections: 2 })).toEqual({
+        reason: 'node_capacity',
+        status: 503,
+        message: 'Node at connection capacity',
+        headers: { 'Retry-After': '5' }
+      });
+    });
+  });
+});
+
+describe('createOriginMatcher', () => {
+  it('allows any origin with *', () => {
+    expect(createOriginMatcher(['*'])('https://anything.test')).toBe(true);
+  });
+
+  it.each(['example.com', 'https://*', 'https://app.*.com'])('rejects the invalid pattern %s', (pattern) => {
+    expect(() => createOriginMatcher([pattern])).toThrow(`Invalid allowed origin: ${pattern}`);
+  });
+});
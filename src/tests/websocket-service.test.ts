@@ -0,0 +1,405 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import WebSocket from 'ws';
+import { WebSocketServer } from '../core/websocket/websocket-service';
+import { PresenceService } from '../core/presence/presence-service';
+import { MemoryPresenceStore } from '../core/presence/memory-presence-store';
+import { MemoryOfflineQueue } from '../core/messaging/memory-offline-queue';
+import { OfflineMessageQueue } from '../core/messaging/offline-queue';
+import { metricsService } from '../services/metrics-service';
+import { ClientType, PresenceServiceOptions, UserPresenceStatus, WebSocketMessage, WebSocketServerOptions } from '../types/websocket';
+
+// El logger y las métricas abren transportes y temporizadores que no hacen falta aquí
+jest.mock('../services/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), success: jest.fn() }
+}));
+jest.mock('../services/metrics-service', () => ({
+  // Cualquier método de métricas es un mock
+  metricsService: new Proxy({}, { get: (methods: Record<string, jest.Mock>, name: string) => (methods[name] ||= jest.fn()) })
+}));
+// Los tokens se validan como JWT locales, sin Firebase
+jest.mock('../services/auth-service', () => {
+  const actual = jest.requireActual('../services/auth-service');
+  return {
+    ...actual,
+    authService: new actual.AuthService({ provider: 'jwt', jwt: { algorithm: 'HS256', secret: 'test-secret', publicKey: '' } })
+  };
+});
+
+// Cliente de prueba que guarda los mensajes recibidos para esperarlos por tipo
+interface TestClient {
+  socket: WebSocket;
+  next(type: string): Promise<WebSocketMessage>;
+}
+
+function token(userId: string, claims: Record<string, any> = {}): string {
+  return jwt.sign({ sub: userId, ...claims }, 'test-secret', { expiresIn: '1h' });
+}
+
+describe('WebSocketServer', () => {
+  let httpServer: http.Server;
+  let store: MemoryPresenceStore;
+  let presence: PresenceService;
+  let server: WebSocketServer;
+  let clients: TestClient[];
+
+  async function start(
+    options: Partial<WebSocketServerOptions> = {},
+    presenceOptions: Partial<PresenceServiceOptions> = {},
+    offlineQueue?: OfflineMessageQueue
+  ): Promise<void> {
+    httpServer = http.createServer();
+    store = new MemoryPresenceStore();
+    presence = new PresenceService(store, undefined, { idleTimeout: 0, ...presenceOptions });
+    server = new WebSocketServer(httpServer, presence, options, undefined, offlineQueue);
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  }
+
+  function connect(userId: string, query: Record<string, string> = {}): Promise<TestClient> {
+    const { port } = httpServer.address() as AddressInfo;
+    const params = new URLSearchParams({ token: token(userId), deviceId: 'phone', ...query });
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/?${params}`);
+    const received: WebSocketMessage[] = [];
+    const waiting: { type: string; resolve: (message: WebSocketMessage) => void }[] = [];
+
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString()) as WebSocketMessage;
+      const index = waiting.findIndex((waiter) => waiter.type === message.type);
+      if (index >= 0) {
+        waiting.splice(index, 1)[0].resolve(message);
+      } else {
+        received.push(message);
+      }
+    });
+
+    const client: TestClient = {
+      socket,
+      next: (type) => {
+        const index = received.findIndex((message) => message.type === type);
+        if (index >= 0) {
+          return Promise.resolve(received.splice(index, 1)[0]);
+        }
+        return new Promise((resolve) => waiting.push({ type, resolve }));
+      }
+    };
+    clients.push(client);
+    return new Promise((resolve, reject) => {
+      socket.once('open', () => resolve(client));
+      socket.once('error', reject);
+    });
+  }
+
+  function closed(client: TestClient): Promise<number> {
+    return new Promise((resolve) => client.socket.once('close', (code) => resolve(code)));
+  }
+
+  // Resuelve con el código HTTP con el que el servidor rechaza el upgrade
+  function rejectedUpgrade(url: string): Promise<number> {
+    const { port } = httpServer.address() as AddressInfo;
+    const socket = new WebSocket(`ws://127.0.0.1:${port}${url}`);
+    socket.on('error', () => undefined);
+    return new Promise((resolve) => socket.once('unexpected-response', (_req, res) => {
+      resolve(res.statusCode ?? 0);
+      socket.terminate();
+    }));
+  }
+
+  // Deja que el servidor procese los eventos pendientes (cierres, escrituras en segundo plano)
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  beforeEach(() => {
+    clients = [];
+  });
+
+  afterEach(async () => {
+    clients.forEach((client) => client.socket.terminate());
+    await server.shutdown();
+    presence.cleanup();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  describe('authentication', () => {
+    it('rejects the upgrade without a valid token', async () => {
+      await start();
+
+      await expect(rejectedUpgrade('/?deviceId=phone')).resolves.toBe(401);
+      await expect(rejectedUpgrade('/?userId=user123&deviceId=phone')).resolves.toBe(401);
+      await expect(rejectedUpgrade(`/?token=${jwt.sign({ sub: 'user123' }, 'other-secret')}`)).resolves.toBe(401);
+    });
+
+    it('accepts the token as a bearer subprotocol without echoing it back', async () => {
+      await start();
+      const { port } = httpServer.address() as AddressInfo;
+      const socket = new WebSocket(`ws://127.0.0.1:${port}/?deviceId=phone`, ['presence.json.v1', `bearer.${token('user123')}`]);
+      clients.push({ socket, next: () => Promise.reject(new Error('not used')) });
+
+      await new Promise((resolve, reject) => {
+        socket.once('open', resolve);
+        socket.once('error', reject);
+      });
+      await settle();
+      expect(socket.protocol).toBe('presence.json.v1');
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.ONLINE);
+    });
+  });
+
+  describe('message validation', () => {
+    it('answers an invalid message with an error frame and keeps the socket open', async () => {
+      await start();
+      const client = await connect('user123');
+
+      client.socket.send(JSON.stringify({ id: 'req-1', type: 'presence_update', payload: { status: 'offline' } }));
+
+      await expect(client.next('error')).resolves.toMatchObject({
+        id: 'req-1',
+        payload: { code: 'INVALID_PAYLOAD', message: 'payload.status must be one of: online, away, busy', requestId: 'req-1' }
+      });
+      expect(client.socket.readyState).toBe(WebSocket.OPEN);
+    });
+
+    it('negotiates the protocol version at connect', async () => {
+      await start();
+      const client = await connect('user123', { protocolVersion: '3' });
+
+      await expect(client.next('connect')).resolves.toMatchObject({ payload: { protocolVersion: 1 } });
+      await expect(rejectedUpgrade(`/?token=${token('user123')}&protocolVersion=0`)).resolves.toBe(400);
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('answers subscribe with a snapshot and then forwards only the watched users', async () => {
+      await start();
+      const watcher = await connect('user456');
+      const watched = await connect('user123', { deviceId: 'laptop' });
+      const unwatched = await connect('user789');
+
+      watcher.socket.send(JSON.stringify({ id: 'sub-1', type: 'subscribe', payload: { userIds: ['user123'] } }));
+      await expect(watcher.next('presence_snapshot')).resolves.toMatchObject({
+        id: 'sub-1',
+        payload: { presence: [expect.objectContaining({ userId: 'user123', status: UserPresenceStatus.ONLINE })] }
+      });
+
+      // La actualización del usuario no observado llega antes: si se reenviara, sería la primera
+      unwatched.socket.send(JSON.stringify({ type: 'presence_update', payload: { status: 'away' } }));
+      await settle();
+      watched.socket.send(JSON.stringify({ type: 'presence_update', payload: { status: 'busy' } }));
+      await expect(watcher.next('presence_update')).resolves.toMatchObject({ payload: { userId: 'user123', status: 'busy' } });
+    });
+  });
+
+  describe('rooms', () => {
+    it('removes a dropped socket from its rooms once its session expires', async () => {
+      await start({}, { resumeGracePeriod: 100 });
+      const alice = await connect('alice');
+      const bob = await connect('bob');
+      alice.socket.send(JSON.stringify({ type: 'join', payload: { roomId: 'doc-1' } }));
+      await settle();
+      bob.socket.send(JSON.stringify({ type: 'join', payload: { roomId: 'doc-1', metadata: { cursor: 3 } } }));
+      await expect(alice.next('member_joined')).resolves.toMatchObject({ payload: { member: { userId: 'bob', metadata: { cursor: 3 } } } });
+
+      bob.socket.terminate();
+
+      await expect(alice.next('member_left')).resolves.toMatchObject({ payload: { roomId: 'doc-1', userId: 'bob' } });
+    });
+  });
+
+  describe('signals', () => {
+    it('relays a signal to its recipients without writing to the store', async () => {
+      await start();
+      const alice = await connect('alice');
+      const bob = await connect('bob');
+      await settle();
+      const updatePresence = jest.spyOn(store, 'updatePresence');
+
+      alice.socket.send(JSON.stringify({ id: 'sig-1', type: 'signal', payload: { signal: 'typing_start', to: ['bob'] } }));
+
+      await expect(bob.next('signal')).resolves.toMatchObject({ payload: { signal: 'typing_start', from: 'alice', deviceId: 'phone' } });
+      await expect(alice.next('ack')).resolves.toMatchObject({ id: 'sig-1' });
+      expect(updatePresence).not.toHaveBeenCalled();
+    });
+
+    it('rate limits signals apart from presence updates', async () => {
+      await start({ signalRateLimit: 1 });
+      const alice = await connect('alice');
+
+      alice.socket.send(JSON.stringify({ type: 'signal', payload: { signal: 'typing_start', to: ['bob'] } }));
+      alice.socket.send(JSON.stringify({ id: 'sig-2', type: 'signal', payload: { signal: 'typing_stop', to: ['bob'] } }));
+      alice.socket.send(JSON.stringify({ id: 'upd-1', type: 'presence_update', payload: { status: 'busy' } }));
+
+      await expect(alice.next('error')).resolves.toMatchObject({ id: 'sig-2', payload: { code: 'RATE_LIMIT' } });
+      await expect(alice.next('ack')).resolves.toMatchObject({ id: 'upd-1' });
+    });
+  });
+
+  describe('direct messages', () => {
+    it('delivers a direct message to every socket of the recipient', async () => {
+      await start();
+      const alice = await connect('alice');
+      const bobPhone = await connect('bob');
+      const bobLaptop = await connect('bob', { deviceId: 'laptop' });
+
+      alice.socket.send(JSON.stringify({ id: 'dm-1', type: 'direct_message', payload: { to: 'bob', data: { text: 'Hi' } } }));
+
+      const ack = await alice.next('ack');
+      expect(ack).toMatchObject({ id: 'dm-1', payload: { delivered: 2, queued: false } });
+      for (const socket of [bobPhone, bobLaptop]) {
+        await expect(socket.next('direct_message')).resolves.toMatchObject({
+          payload: { messageId: ack.payload.messageId, from: 'alice', fromDeviceId: 'phone', data: { text: 'Hi' } }
+        });
+      }
+    });
+
+    it('queues messages for an offline recipient and delivers them on connect', async () => {
+      await start({}, {}, new MemoryOfflineQueue({ maxPerUser: 10, ttl: 60000 }));
+      const alice = await connect('alice');
+
+      alice.socket.send(JSON.stringify({ id: 'dm-1', type: 'direct_message', payload: { to: 'bob', data: { text: 'Hi' } } }));
+      await expect(alice.next('ack')).resolves.toMatchObject({ payload: { delivered: 0, queued: true } });
+      const bob = await connect('bob');
+
+      await expect(bob.next('direct_message')).resolves.toMatchObject({ payload: { from: 'alice', data: { text: 'Hi' } } });
+    });
+  });
+
+  describe('compression', () => {
+    const compression = { enabled: true, threshold: 0, windowBits: 15, memLevel: 8, concurrencyLimit: 10, disabledClientTypes: [] };
+
+    it('is off unless enabled', async () => {
+      await start();
+      const client = await connect('user123');
+
+      expect(client.socket.extensions).toBe('');
+    });
+
+    it('negotiates per-message deflate and counts the payload bytes as compressed', async () => {
+      await start({ compression });
+      const client = await connect('user123');
+      await client.next('connect');
+
+      expect(client.socket.extensions).toContain('permessage-deflate');
+      expect(metricsService.addPayloadBytes).toHaveBeenCalledWith('outbound', 'deflate', expect.any(Number));
+    });
+
+    it('leaves out the client types it is disabled for', async () => {
+      await start({ compression: { ...compression, disabledClientTypes: [ClientType.FLUTTER] } });
+
+      const flutter = await connect('user123', { clientType: ClientType.FLUTTER });
+      const web = await connect('user456', { clientType: ClientType.WEB });
+
+      expect(flutter.socket.extensions).toBe('');
+      expect(web.socket.extensions).toContain('permessage-deflate');
+    });
+  });
+
+  describe('live options', () => {
+    it('applies new rate limits to open connections', async () => {
+      await start();
+      const client = await connect('user123');
+
+      expect(server.updateOptions({ signalRateLimit: 1 })).toEqual({ changed: ['signalRateLimit'], restartRequired: [] });
+      client.socket.send(JSON.stringify({ type: 'signal', payload: { signal: 'typing_start', to: ['user456'] } }));
+      client.socket.send(JSON.stringify({ id: 'sig-2', type: 'signal', payload: { signal: 'typing_stop', to: ['user456'] } }));
+
+      await expect(client.next('error')).resolves.toMatchObject({ id: 'sig-2', payload: { code: 'RATE_LIMIT' } });
+    });
+
+    it('rejects invalid options without applying any of them', async () => {
+      await start();
+
+      expect(() => server.updateOptions({ signalRateLimit: 1, heartbeatInterval: 0 })).toThrow('heartbeatInterval');
+      expect(server.updateOptions({ signalRateLimit: 1 })).toEqual({ changed: ['signalRateLimit'], restartRequired: [] });
+    });
+
+    it('keeps the options fixed at startup until a restart', async () => {
+      await start();
+
+      expect(server.updateOptions({ typingTimeout: 1 })).toEqual({ changed: [], restartRequired: ['typingTimeout'] });
+    });
+  });
+
+  describe('graceful shutdown', () => {
+    it('tells clients when to reconnect and closes them with 1012', async () => {
+      await start({ shutdownReconnectJitter: 1000 });
+      const client = await connect('user123');
+      const code = closed(client);
+
+      await server.shutdown();
+
+      const { payload } = await client.next('server_shutdown');
+      expect(payload.reconnectAfter).toBeGreaterThanOrEqual(0);
+      expect(payload.reconnectAfter).toBeLessThan(1000);
+      await expect(code).resolves.toBe(1012);
+    });
+
+    it('marks the users of the node offline and waits for their writes', async () => {
+      await start();
+      await (await connect('user123')).next('connect');
+      await (await connect('user456')).next('connect');
+
+      await server.shutdown();
+      await presence.shutdown();
+
+      await expect(store.getPresence('user123')).resolves.toMatchObject({ status: UserPresenceStatus.OFFLINE, devices: [] });
+      await expect(store.getPresence('user456')).resolves.toMatchObject({ status: UserPresenceStatus.OFFLINE });
+    });
+  });
+
+  describe('session resumption', () => {
+    it('keeps the session when it is resumed while the previous socket is still open', async () => {
+      await start();
+      const previous = await connect('user123');
+      const { payload } = await previous.next('connect');
+      const updatePresence = jest.spyOn(store, 'updatePresence');
+      const previousClosed = closed(previous);
+
+      const resumed = await connect('user123', { resumeToken: payload.resumeToken });
+
+      await expect(resumed.next('connect')).resolves.toMatchObject({ payload: { resumed: true, deviceId: 'phone' } });
+      await previousClosed;
+      await settle();
+      expect(updatePresence).not.toHaveBeenCalled();
+      expect(presence.getPresence('user123')).toMatchObject({
+        status: UserPresenceStatus.ONLINE,
+        devices: [expect.objectContaining({ deviceId: 'phone' })]
+      });
+      expect(server.getConnectedClients()).toBe(1);
+    });
+
+    it('holds the presence of a dropped socket until the session is resumed', async () => {
+      await start();
+      const dropped = await connect('user123');
+      const { payload } = await dropped.next('connect');
+      const updatePresence = jest.spyOn(store, 'updatePresence');
+
+      dropped.socket.terminate();
+      await settle();
+      const resumed = await connect('user123', { resumeToken: payload.resumeToken });
+
+      await expect(resumed.next('connect')).resolves.toMatchObject({ payload: { resumed: true } });
+      expect(updatePresence).not.toHaveBeenCalled();
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.ONLINE);
+    });
+
+    it('marks the user offline once the grace period ends without a resume', async () => {
+      await start({}, { resumeGracePeriod: 100 });
+      const dropped = await connect('user123');
+      await dropped.next('connect');
+
+      dropped.socket.terminate();
+      await settle();
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.ONLINE);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(presence.getPresence('user123')?.status).toBe(UserPresenceStatus.OFFLINE);
+    });
+
+    it('starts a new session with an unknown resume token', async () => {
+      await start();
+      const client = await connect('user123', { resumeToken: 'unknown' });
+
+      await expect(client.next('connect')).resolves.toMatchObject({ payload: { resumed: false } });
+    });
+  });
+});
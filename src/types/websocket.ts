@@ -1,4 +1,6 @@
 import WebSocket from 'ws';
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
 
 // Enum de tipos de mensajes para WebSocket
 export enum WebSocketMessageType {
@@ -7,6 +9,24 @@ export enum WebSocketMessageType {
   HEARTBEAT = 'heartbeat',       // Latido de conexión
   HEARTBEAT_ACK = 'heartbeat_ack', // Confirmación de latido
   PRESENCE_UPDATE = 'presence_update', // Actualización de presencia
+  SUBSCRIBE = 'subscribe',       // Suscripción a la presencia de usuarios
+  UNSUBSCRIBE = 'unsubscribe',   // Cancelación de suscripción
+  PRESENCE_SNAPSHOT = 'presence_snapshot', // Estado actual de los usuarios suscritos
+  JOIN = 'join',                 // Unirse a una sala
+  LEAVE = 'leave',               // Salir de una sala
+  ROOM_METADATA = 'room_metadata', // Metadatos del usuario en una sala
+  ROOM_MEMBERS = 'room_members', // Lista de miembros de una sala (respuesta a `join`)
+  MEMBER_JOINED = 'member_joined', // Un usuario entró en la sala
+  MEMBER_LEFT = 'member_left',   // Un usuario salió de la sala
+  MEMBER_UPDATED = 'member_updated', // Cambió el estado o los metadatos de un miembro
+  DIRECT_MESSAGE = 'direct_message', // Mensaje directo entre usuarios
+  PUSH = 'push', // Notificación enviada por un servicio del backend
+  SIGNAL = 'signal',             // Señal efímera entre clientes (p. ej. indicador de escritura)
+  ACK = 'ack',                   // Confirmación de un mensaje del cliente con `id`
+  ACTIVITY = 'activity',         // Actividad del usuario (evita el paso automático a ausente)
+  AUTH = 'auth',                 // Renovación del token de acceso
+  AUTH_EXPIRED = 'auth_expired', // Aviso de token expirado (requiere re-autenticación)
+  SERVER_SHUTDOWN = 'server_shutdown', // Aviso de cierre del nodo con sugerencia de reconexión
   ERROR = 'error'               // Error en la comunicación
 }
 
@@ -28,6 +48,7 @@ export enum ClientType {
 
 // Interfaz para mensajes WebSocket
 export interface WebSocketMessage {
+  id?: string;  // ID de petición enviado por el cliente (se devuelve en las respuestas)
   type: WebSocketMessageType;  // Tipo de mensaje
   userId?: string;  // ID del usuario, si aplica
   timestamp: string;  // Marca de tiempo del mensaje
@@ -35,12 +56,60 @@ export interface WebSocketMessage {
   serverTime?: number;  // Tiempo del servidor cuando se envió el mensaje
 }
 
+// Presencia de una conexión (dispositivo) concreta de un usuario
+export interface DevicePresence {
+  deviceId: string;  // ID del dispositivo (enviado por el cliente o generado por el servidor)
+  clientType: ClientType;  // Tipo de cliente del dispositivo
+  status: UserPresenceStatus;  // Estado del dispositivo
+  explicit: boolean;  // Si el estado lo fijó el usuario (y no una transición automática)
+  statusChangedAt: string;  // Último cambio de estado del dispositivo
+  lastActive: string;  // Última actividad registrada en el dispositivo
+  nodeId?: string;  // Nodo del clúster que mantiene la conexión
+}
+
+// Política para calcular el estado del usuario a partir de sus dispositivos
+export type PresenceAggregationPolicy = 'most_available' | 'explicit_wins';
+
 // Interfaz para datos de presencia de un usuario
 export interface PresenceData {
   userId: string;  // ID del usuario
   status: UserPresenceStatus;  // Estado de presencia del usuario
   lastSeen: string;  // Última vez que el usuario estuvo activo
   metadata?: Record<string, any>;  // Información adicional opcional
+  devices?: DevicePresence[];  // Desglose por dispositivo conectado
+  originNodeId?: string;  // Nodo que escribió este estado
+  version?: number;  // Versión del estado del usuario (crece en cada escritura; descarta datos desordenados)
+}
+
+// Causa de un cambio de estado del usuario
+export type PresenceTransitionReason =
+  | 'connect'     // Nueva conexión
+  | 'disconnect'  // Cierre de conexión (o fin del periodo de reanudación)
+  | 'explicit'    // Estado enviado por el propio cliente
+  | 'admin'       // Estado forzado por un administrador
+  | 'idle'        // Paso automático a `away` por inactividad
+  | 'activity'    // Vuelta automática a `online` tras actividad
+  | 'cluster'     // Reconciliación tras la caída de otro nodo
+  | 'shutdown';   // Cierre ordenado de este nodo
+
+// Cambio de estado de un usuario registrado en el historial
+export interface PresenceTransition {
+  userId: string;  // ID del usuario
+  from: UserPresenceStatus;  // Estado anterior
+  to: UserPresenceStatus;  // Estado nuevo
+  deviceId?: string;  // Dispositivo que provocó el cambio (si lo hay)
+  timestamp: string;  // Momento del cambio (ISO 8601)
+  reason: PresenceTransitionReason;  // Causa del cambio
+  nodeId?: string;  // Nodo que registró el cambio
+}
+
+// Tiempo en cada estado durante un día (UTC), en milisegundos
+export interface DailyPresenceTime {
+  date: string;  // Día en formato YYYY-MM-DD
+  online: number;
+  away: number;
+  busy: number;
+  total: number;  // Tiempo conectado (cualquier estado salvo `offline`)
 }
 
 // Extensión de WebSocket para agregar datos adicionales
@@ -51,7 +120,40 @@ export interface WebSocketClient extends WebSocket {
   connectionTime: Date;  // Hora de la conexión
   messageCount: number;  // Número de mensajes enviados por el cliente
   lastMessageTime: number;  // Marca de tiempo del último mensaje recibido
+  connectionId?: string;  // Identificador único del socket (clave de sus límites de tasa)
+  lastActivityTime?: number;  // Última actividad del usuario en este socket (mensajes de la aplicación)
+  deviceId?: string;  // ID del dispositivo de la conexión
+  device?: DevicePresence;  // Presencia de este dispositivo
   presenceData?: PresenceData;  // Datos de presencia del usuario
+  subscriptions?: Set<string>;  // Usuarios cuya presencia observa este socket
+  rooms?: Set<string>;  // Salas a las que está unido este socket
+  protocolVersion?: number;  // Versión del protocolo negociada al conectar
+  claims?: Record<string, any>;  // Claims del token con el que se autenticó
+  tokenExpiresAt?: number;  // Expiración del token (epoch en ms)
+  reauthDeadline?: number;  // Límite para re-autenticarse tras expirar el token
+  resumeToken?: string;  // Token para reanudar la sesión tras un corte de red
+  superseded?: boolean;  // Sustituido por el socket que reanudó su sesión (su cierre no la termina)
+  encoding?: WireEncoding;  // Codificación de los mensajes negociada con el subprotocolo
+  compression?: WireCompression;  // Compresión negociada con la extensión permessage-deflate
+  transport?: Socket;  // Socket TCP subyacente (para medir los bytes transmitidos)
+  wireBytes?: { read: number; written: number };  // Bytes del socket TCP ya contabilizados en las métricas
+  pendingUpdates?: Map<string, WebSocketMessage>;  // Actualizaciones agrupadas mientras el socket tiene el buffer lleno
+  drainTimer?: NodeJS.Timeout;  // Comprobación periódica del buffer mientras hay actualizaciones agrupadas
+}
+
+// Resultado de validar un token de acceso
+export interface AuthContext {
+  userId: string;  // ID del usuario derivado del token
+  claims: Record<string, any>;  // Claims completos del token
+  expiresAt?: number;  // Expiración del token (epoch en ms)
+  provider: 'firebase' | 'jwt';  // Proveedor que validó el token
+}
+
+// Solicitud HTTP de upgrade ya autenticada
+export interface AuthenticatedRequest extends IncomingMessage {
+  auth?: AuthContext;  // Contexto de autenticación asignado en verifyClient
+  protocolVersion?: number;  // Versión del protocolo negociada en verifyClient
+  clientAddress?: string;  // IP del cliente (la del socket o, tras un proxy de confianza, la de `X-Forwarded-For`)
 }
 
 // Nueva interfaz para estadísticas del servidor WebSocket
@@ -72,15 +174,90 @@ export interface ServerStats {
   };
 }
 
+// Respuesta a un mensaje que supera un límite de tasa:
+// `drop` lo descarta, `error` responde con un frame de error y `close` además cierra el socket si se repite
+export type RateLimitPenalty = 'drop' | 'error' | 'close';
+
+// Codificación de los mensajes en el socket
+export type WireEncoding = 'json' | 'msgpack';
+
+// Compresión de los frames en el socket
+export type WireCompression = 'deflate' | 'none';
+
+// Compresión permessage-deflate de los mensajes salientes
+export interface CompressionOptions {
+  enabled: boolean;  // Ofrece la extensión permessage-deflate a los clientes
+  threshold: number;  // Tamaño en bytes a partir del que se comprime un mensaje
+  windowBits: number;  // Tamaño de la ventana de compresión del servidor (8-15)
+  memLevel: number;  // Memoria de zlib por contexto de compresión (1-9)
+  concurrencyLimit: number;  // Operaciones de zlib simultáneas
+  disabledClientTypes: ClientType[];  // Tipos de cliente a los que no se ofrece la compresión
+}
+
+// Qué hacer con un socket cuyo buffer de salida supera el máximo: descartar mensajes o cerrarlo
+export type SlowConsumerPolicy = 'drop' | 'close';
+
 // Nueva interfaz para opciones del servidor WebSocket
 export interface WebSocketServerOptions {
   heartbeatInterval: number;  // Intervalo en milisegundos para enviar latidos
   maxConnectionsPerUser: number;  // Número máximo de conexiones permitidas por usuario
-  messageRateLimit: number;  // Límite de mensajes por segundo
+  allowedOrigins: string[];  // Orígenes (`Origin`) que pueden abrir un WebSocket; admite `*` y `https://*.example.com`
+  ipAllowList: string[];  // IPs o rangos CIDR que pueden conectarse (vacío: cualquiera)
+  ipDenyList: string[];  // IPs o rangos CIDR que nunca pueden conectarse
+  trustedProxies: string[];  // IPs o rangos CIDR de los proxies cuyo `X-Forwarded-For` se acepta (vacío: ninguno)
+  maxConnections: number;  // Conexiones simultáneas en el nodo (0: sin límite)
+  messageRateLimit: number;  // Límite de mensajes por segundo y socket
+  userMessageRateLimit: number;  // Límite de mensajes por segundo de un usuario sumando todos sus sockets
+  messageTypeRateLimits: Partial<Record<WebSocketMessageType, number>>;  // Límite por segundo y socket de cada tipo de mensaje
+  signalRateLimit: number;  // Límite de señales efímeras por segundo (aparte del de presencia)
+  connectionRateLimit: number;  // Intentos de conexión por minuto desde una misma IP
+  rateLimitPenalty: RateLimitPenalty;  // Qué se hace con un mensaje que supera un límite
+  rateLimitMaxViolations: number;  // Infracciones por minuto antes de cerrar el socket (penalización `close`)
+  backpressureHighWaterMark: number;  // Bytes sin enviar a partir de los que se agrupan las actualizaciones de presencia
+  maxBufferedAmount: number;  // Bytes sin enviar a partir de los que se aplica `slowConsumerPolicy`
+  slowConsumerPolicy: SlowConsumerPolicy;  // Respuesta a un socket que no lee al ritmo del servidor
+  compression: CompressionOptions;  // Compresión permessage-deflate
+  typingTimeout: number;  // Tiempo en milisegundos tras el que expira un `typing_start` sin `typing_stop`
   maxMessageSize: number;  // Tamaño máximo de mensaje permitido
+  reauthGracePeriod: number;  // Tiempo en milisegundos para renovar un token expirado
+  maxSubscriptionsPerClient: number;  // Número máximo de usuarios observados por socket
+  maxRoomsPerClient: number;  // Número máximo de salas por socket
+  idempotencyWindow: number;  // Ventana en milisegundos en la que un `id` repetido no se reprocesa
+  shutdownReconnectJitter: number;  // Retardo máximo aleatorio sugerido para reconectar tras un cierre del nodo
   logLevel?: 'debug' | 'info' | 'warn' | 'error';  // Nivel de logueo
 }
 
+// Opciones del servicio de presencia
+export interface PresenceServiceOptions {
+  idleTimeout: number;  // Inactividad en milisegundos antes de pasar a `away` (0 lo desactiva)
+  aggregationPolicy: PresenceAggregationPolicy;  // Cómo se combinan los estados de los dispositivos
+  resumeGracePeriod: number;  // Tiempo en milisegundos que se conserva la sesión tras un corte (0 lo desactiva)
+  nodeId: string;  // Identificador de este nodo en las escrituras (para ignorar sus propios ecos)
+  storeWatchScope: PresenceWatchScope;  // Qué cambios del almacenamiento se escuchan
+}
+
+// Cambios del almacenamiento que escucha un nodo: todos los usuarios o solo los que tienen suscriptores locales
+export type PresenceWatchScope = 'all' | 'subscribed';
+
+// Resultado de enviar un mensaje a un usuario
+export interface DeliveryResult {
+  delivered: number;  // Sockets de este nodo que recibieron el mensaje
+  relayed: boolean;  // Se reenvió a otros nodos donde el usuario tiene conexiones
+  queued: boolean;  // Se guardó en la cola de pendientes porque el usuario no tenía conexiones
+}
+
+// Resultado de enviar un mensaje a todos los sockets de un tipo de cliente
+export interface ClientTypeDeliveryResult {
+  delivered: number;  // Sockets de este nodo que recibieron el mensaje
+  relayed: number;  // Otros nodos vivos del clúster a los que se reenvió (cada uno lo entrega a sus sockets)
+}
+
+// Resultado de desconectar a un usuario
+export interface DisconnectResult {
+  disconnected: number;  // Sockets de este nodo que se cerraron
+  remote: number;  // Sockets del usuario en otros nodos a los que se pidió el cierre
+}
+
 // Nueva interfaz para representar los errores de WebSocket
 export interface WebSocketError {
   code: string;  // Código del error
@@ -88,5 +265,6 @@ export interface WebSocketError {
   timestamp: Date;  // Fecha y hora del error
   userId?: string;  // ID del usuario asociado, si aplica
   clientType?: ClientType;  // Tipo de cliente relacionado, si aplica
+  requestId?: string;  // ID del mensaje que causó el error, si el cliente lo envió
   details?: any;  // Detalles adicionales sobre el error
 }